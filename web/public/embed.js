@@ -0,0 +1,53 @@
+/*
+ * Offer wall embed loader.
+ *
+ *   <div id="offer-wall"></div>
+ *   <script src="https://wall.example.com/embed.js" data-site-key="partner-key"
+ *     data-user-id="user-123" data-theme="dark" data-accent="#e4572e" data-target="#offer-wall" async></script>
+ *
+ * The wall posts { source: "ogads-wall", type, ... } messages (ready, resize,
+ * offer_click, offer_completed, error). The loader resizes the iframe and
+ * re-dispatches each one on the container as an `ogads:<type>` CustomEvent.
+ */
+(function () {
+  var script = document.currentScript;
+  if (!script) return;
+
+  var data = script.dataset;
+  var wallOrigin = new URL(script.src).origin;
+  if (!data.siteKey) {
+    console.error("[ogads-wall] data-site-key is required");
+    return;
+  }
+
+  var container = data.target ? document.querySelector(data.target) : null;
+  if (!container) {
+    container = document.createElement("div");
+    script.parentNode.insertBefore(container, script);
+  }
+
+  var params = new URLSearchParams({ origin: window.location.origin });
+  ["userId", "subid", "theme", "accent"].forEach(function (key) {
+    if (data[key]) params.set(key, data[key]);
+  });
+
+  var iframe = document.createElement("iframe");
+  iframe.src = wallOrigin + "/embed/" + encodeURIComponent(data.siteKey) + "?" + params.toString();
+  iframe.title = "Offer wall";
+  iframe.loading = "lazy";
+  iframe.style.width = "100%";
+  iframe.style.minHeight = data.minHeight || "480px";
+  iframe.style.border = "0";
+  container.appendChild(iframe);
+
+  window.addEventListener("message", function (event) {
+    if (event.origin !== wallOrigin || event.source !== iframe.contentWindow) return;
+    var message = event.data;
+    if (!message || message.source !== "ogads-wall") return;
+
+    if (message.type === "resize" && typeof message.height === "number") {
+      iframe.style.height = message.height + "px";
+    }
+    container.dispatchEvent(new CustomEvent("ogads:" + message.type, { detail: message, bubbles: true }));
+  });
+})();
@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+// Local stand-in for the OGAds Offer API and postback simulator.
+//
+//   node scripts/mock-ogads.mjs serve    [--port 4010] [--fixture default] [--scenario ok] [--latency 0|200-800] [--fail-rate 0] [--replay]
+//   node scripts/mock-ogads.mjs record   [--port 4010] [--target https://lockedapp.org/api/v2]
+//   node scripts/mock-ogads.mjs postback [--url http://localhost:3000/api/postback] [--latest-click | --click <id> --offer <id>] ...
+//
+// Point the app at it with OGADS_API_URL=http://localhost:4010/api/v2 and any OGADS_API_KEY.
+
+import { createHmac } from "crypto";
+import { promises as fs } from "fs";
+import http from "http";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const FIXTURES_DIR = process.env.MOCK_OGADS_FIXTURES_DIR ?? path.join(ROOT, "mock", "fixtures");
+const DATA_DIR = path.resolve(ROOT, process.env.DATA_DIR ?? ".data");
+
+const SCENARIOS = ["ok", "success-false", "unauthorized", "server-error", "timeout", "invalid-json", "reset"];
+
+// OGAds documents ctype=1 as CPI only and 0 (or no ctype) as every type.
+const CTYPE_FILTERS = { 1: ["CPI"] };
+
+function parseArgs(argv) {
+  const [command = "serve", ...rest] = argv[0]?.startsWith("--") ? ["serve", ...argv] : argv;
+  const options = {};
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    if (!arg.startsWith("--")) continue;
+    const key = arg.slice(2);
+    const next = rest[index + 1];
+    if (next === undefined || next.startsWith("--")) {
+      options[key] = true;
+    } else {
+      options[key] = next;
+      index += 1;
+    }
+  }
+  return { command, options };
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseLatency(value) {
+  const [min, max = min] = String(value ?? "0").split("-").map((part) => Number.parseInt(part, 10) || 0);
+  return { min, max: Math.max(min, max) };
+}
+
+function pickLatency({ min, max }) {
+  return min + Math.random() * (max - min);
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+function fixtureFile(name) {
+  return path.join(FIXTURES_DIR, `${name.replace(/[^\w.-]/g, "_")}.json`);
+}
+
+async function readFixture(name) {
+  try {
+    return JSON.parse(await fs.readFile(fixtureFile(name), "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+function recordingName(ip, ctype) {
+  return `recorded-${ip || "unknown"}-${ctype || "0"}`;
+}
+
+function filterByCtype(payload, ctype) {
+  const types = CTYPE_FILTERS[ctype];
+  if (!types || !Array.isArray(payload.offers)) return payload;
+  return {
+    ...payload,
+    offers: payload.offers.filter(
+      (offer) => typeof offer === "object" && offer !== null && types.includes(String(offer.ctype ?? "").toUpperCase())
+    ),
+  };
+}
+
+async function serve(options) {
+  const port = Number.parseInt(options.port ?? process.env.MOCK_OGADS_PORT ?? "4010", 10);
+  // Runtime state can be changed without a restart via /__mock/state.
+  const state = {
+    fixture: options.fixture ?? "default",
+    scenario: options.scenario ?? "ok",
+    latency: parseLatency(options.latency),
+    failRate: Number.parseFloat(options["fail-rate"] ?? "0") || 0,
+    replay: Boolean(options.replay),
+    requests: 0,
+  };
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", `http://${request.headers.host ?? "localhost"}`);
+
+    if (url.pathname === "/__mock/state") {
+      const scenario = url.searchParams.get("scenario");
+      if (scenario && !SCENARIOS.includes(scenario)) {
+        return sendJson(response, 400, { error: `scenario must be one of: ${SCENARIOS.join(", ")}` });
+      }
+      if (scenario) state.scenario = scenario;
+      if (url.searchParams.get("fixture")) state.fixture = url.searchParams.get("fixture");
+      if (url.searchParams.has("latency")) state.latency = parseLatency(url.searchParams.get("latency"));
+      if (url.searchParams.has("failRate")) state.failRate = Number.parseFloat(url.searchParams.get("failRate")) || 0;
+      if (url.searchParams.has("replay")) state.replay = url.searchParams.get("replay") === "true";
+      return sendJson(response, 200, state);
+    }
+
+    state.requests += 1;
+    const ip = url.searchParams.get("ip") ?? "";
+    const ctype = url.searchParams.get("ctype") ?? "0";
+    console.log(`[mock-ogads] #${state.requests} ${request.method} ${url.pathname} ip=${ip} ctype=${ctype} scenario=${state.scenario}`);
+
+    await sleep(pickLatency(state.latency));
+
+    if (state.scenario === "timeout") {
+      // Hold the connection open; the client's timeout should fire first.
+      return;
+    }
+    if (state.scenario === "reset") {
+      request.socket.destroy();
+      return;
+    }
+    if (!request.headers.authorization?.startsWith("Bearer ") || state.scenario === "unauthorized") {
+      return sendJson(response, 401, { success: false, error: "Unauthenticated.", offers: [] });
+    }
+    if (state.scenario === "server-error" || Math.random() < state.failRate) {
+      return sendJson(response, 503, { message: "Service Unavailable" });
+    }
+    if (state.scenario === "invalid-json") {
+      response.writeHead(200, { "Content-Type": "text/html" });
+      return response.end("<html><body>Bad gateway</body></html>");
+    }
+    if (state.scenario === "success-false") {
+      return sendJson(response, 200, { success: false, error: { ip: ["The ip field is required."] }, offers: [] });
+    }
+
+    const payload = (state.replay ? await readFixture(recordingName(ip, ctype)) : null)
+      ?? await readFixture(state.fixture);
+    if (!payload) {
+      return sendJson(response, 500, { success: false, error: `Fixture "${state.fixture}" not found`, offers: [] });
+    }
+    return sendJson(response, 200, filterByCtype(payload, ctype));
+  });
+
+  server.listen(port, () => {
+    console.log(`[mock-ogads] serving fixtures from ${FIXTURES_DIR} on http://localhost:${port}/api/v2`);
+    console.log(`[mock-ogads] fixture=${state.fixture} scenario=${state.scenario} replay=${state.replay}`);
+  });
+}
+
+async function record(options) {
+  const port = Number.parseInt(options.port ?? process.env.MOCK_OGADS_PORT ?? "4010", 10);
+  const target = options.target ?? process.env.OGADS_RECORD_URL ?? "https://lockedapp.org/api/v2";
+
+  const server = http.createServer(async (request, response) => {
+    const incoming = new URL(request.url ?? "/", "http://localhost");
+    const upstream = new URL(target);
+    incoming.searchParams.forEach((value, key) => upstream.searchParams.set(key, value));
+
+    const authorization = request.headers.authorization
+      ?? (process.env.OGADS_API_KEY ? `Bearer ${process.env.OGADS_API_KEY}` : undefined);
+
+    try {
+      const upstreamResponse = await fetch(upstream, { headers: authorization ? { Authorization: authorization } : {} });
+      const body = await upstreamResponse.text();
+      const name = recordingName(incoming.searchParams.get("ip"), incoming.searchParams.get("ctype"));
+
+      if (upstreamResponse.ok) {
+        await fs.mkdir(FIXTURES_DIR, { recursive: true });
+        await fs.writeFile(fixtureFile(name), body, "utf8");
+        console.log(`[mock-ogads] recorded ${upstreamResponse.status} -> ${path.relative(ROOT, fixtureFile(name))}`);
+      } else {
+        console.warn(`[mock-ogads] not recording ${upstreamResponse.status} response for ${name}`);
+      }
+
+      response.writeHead(upstreamResponse.status, {
+        "Content-Type": upstreamResponse.headers.get("content-type") ?? "application/json",
+      });
+      response.end(body);
+    } catch (error) {
+      console.error("[mock-ogads] upstream request failed", error);
+      sendJson(response, 502, { success: false, error: String(error), offers: [] });
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`[mock-ogads] recording ${target} through http://localhost:${port}/api/v2`);
+  });
+}
+
+// Mirrors signPostbackParams in src/lib/postback-auth.ts.
+function signParams(params, secret) {
+  const payload = [...params.entries()]
+    .filter(([key]) => key !== "signature")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+async function findLatestClick() {
+  const clicks = JSON.parse(await fs.readFile(path.join(DATA_DIR, "clicks.json"), "utf8"));
+  const real = clicks.filter((click) => !click.orphaned);
+  return real.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null;
+}
+
+async function postback(options) {
+  const endpoint = new URL(options.url ?? "http://localhost:3000/api/postback");
+  let click = null;
+  if (options["latest-click"]) {
+    click = await findLatestClick();
+    if (!click) throw new Error(`No clicks recorded in ${DATA_DIR}`);
+  }
+
+  const offerId = options.offer ?? click?.offerId;
+  const clickId = options.click ?? click?.id;
+  if (!offerId || !clickId) {
+    throw new Error("Pass --offer and --click, or --latest-click to use the most recent recorded click");
+  }
+
+  // Same parameters as the OGAds postback URL documented in the README.
+  const params = endpoint.searchParams;
+  params.set("offer_id", String(offerId));
+  params.set("payout", String(options.payout ?? "0.50"));
+  params.set("click_id", String(clickId));
+  const userId = options.user ?? click?.userId;
+  if (userId) params.set("user_id", String(userId));
+  const ip = options.ip ?? click?.ip;
+  if (ip) params.set("ip", String(ip));
+  params.set("datetime", options.datetime ?? new Date().toISOString().slice(0, 19).replace("T", " "));
+  if (options.status) params.set("status", String(options.status));
+
+  const secret = options.secret ?? process.env.POSTBACK_SHARED_SECRET;
+  if (secret && secret !== true) {
+    params.set("signature", signParams(params, secret));
+  }
+
+  const repeat = Number.parseInt(options.repeat ?? "1", 10) || 1;
+  for (let attempt = 1; attempt <= repeat; attempt += 1) {
+    const response = await fetch(endpoint);
+    console.log(`[mock-ogads] GET ${endpoint} -> ${response.status}`);
+    console.log(await response.text());
+  }
+}
+
+const { command, options } = parseArgs(process.argv.slice(2));
+const commands = { serve, record, postback };
+
+if (!commands[command]) {
+  console.error(`Unknown command "${command}". Use one of: ${Object.keys(commands).join(", ")}`);
+  process.exit(1);
+}
+
+commands[command](options).catch((error) => {
+  console.error(`[mock-ogads] ${error.message}`);
+  process.exit(1);
+});
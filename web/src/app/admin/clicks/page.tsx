@@ -0,0 +1,67 @@
+import { listClicks } from "@/lib/clicks";
+import styles from "../admin.module.css";
+import { formatTimestamp, formatUsd } from "../format";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_LIMIT = 200;
+
+export default async function AdminClicksPage() {
+  const clicks = (await listClicks())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, RECENT_LIMIT);
+
+  return (
+    <section className={styles.section}>
+      <h1 className={styles.sectionTitle}>Recent clicks</h1>
+      <p className={styles.muted}>Latest {RECENT_LIMIT} clicks, newest first. Orphaned clicks were created from postbacks.</p>
+      {clicks.length === 0 ? (
+        <p className={styles.muted}>No clicks recorded yet.</p>
+      ) : (
+        <div className={styles.tableWrap}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Time (UTC)</th>
+                <th>Click</th>
+                <th>Offer</th>
+                <th>User</th>
+                <th>IP</th>
+                <th className={styles.numeric}>Reported EPC</th>
+                <th>Fraud</th>
+                <th>User agent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {clicks.map((click) => (
+                <tr key={click.id}>
+                  <td>{formatTimestamp(click.createdAt)}</td>
+                  <td className={styles.mono}>
+                    {click.id}
+                    {click.orphaned ? <span className={styles.badgeWarn}>orphaned</span> : null}
+                  </td>
+                  <td className={styles.truncate}>
+                    <span className={styles.mono}>{click.network}#{click.offerId}</span> {click.offerName ?? ""}
+                  </td>
+                  <td className={styles.mono}>{click.userId ?? "—"}</td>
+                  <td className={styles.mono}>{click.ip ?? "—"}</td>
+                  <td className={styles.numeric}>{formatUsd(click.reportedEpc ?? null, 4)}</td>
+                  <td title={click.fraud?.signals.map((signal) => signal.detail).join("\n")}>
+                    {click.fraud && click.fraud.signals.length > 0 ? (
+                      <span className={styles.badgeWarn}>
+                        {click.fraud.score}: {click.fraud.signals.map((signal) => signal.rule).join(", ")}
+                      </span>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td className={styles.truncate} title={click.userAgent ?? undefined}>{click.userAgent ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,146 @@
+import { revalidatePath } from "next/cache";
+import type { ConversionRecord } from "@/types/tracking";
+import { ConversionReviewError, listConversions, reviewConversion } from "@/lib/postbacks";
+import styles from "../admin.module.css";
+import { formatTimestamp, formatUsd } from "../format";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_LIMIT = 200;
+
+async function submitReview(formData: FormData) {
+  "use server";
+
+  const conversionId = String(formData.get("conversionId") ?? "");
+  const decision = formData.get("decision") === "approve" ? "approve" : "reject";
+  try {
+    await reviewConversion(conversionId, decision);
+  } catch (error) {
+    // Another reviewer got there first; the refreshed table shows the outcome.
+    if (!(error instanceof ConversionReviewError)) throw error;
+  }
+  revalidatePath("/admin/conversions");
+}
+
+function StatusBadge({ conversion }: { conversion: ConversionRecord }) {
+  switch (conversion.status) {
+    case "approved":
+      return <span className={styles.badgeOk}>approved</span>;
+    case "held":
+      return <span className={styles.badgeWarn}>held</span>;
+    case "rejected":
+      return <span className={styles.badgeError}>rejected {formatTimestamp(conversion.reviewedAt)}</span>;
+    default:
+      return <span className={styles.badgeError}>reversed {formatTimestamp(conversion.reversedAt)}</span>;
+  }
+}
+
+function FraudSummary({ conversion }: { conversion: ConversionRecord }) {
+  const signals = conversion.fraud?.signals ?? [];
+  if (signals.length === 0) return <span className={styles.muted}>—</span>;
+  return (
+    <span title={signals.map((signal) => signal.detail).join("\n")}>
+      {conversion.fraud.score}: {signals.map((signal) => signal.rule).join(", ")}
+    </span>
+  );
+}
+
+export default async function AdminConversionsPage() {
+  const conversions = (await listConversions()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const held = conversions.filter((conversion) => conversion.status === "held");
+  const recent = conversions.slice(0, RECENT_LIMIT);
+
+  return (
+    <>
+      <section className={styles.section}>
+        <h1 className={styles.sectionTitle}>Held for review ({held.length})</h1>
+        <p className={styles.muted}>
+          Conversions whose fraud score reached the review threshold. They are not credited until approved.
+        </p>
+        {held.length === 0 ? (
+          <p className={styles.muted}>Nothing to review.</p>
+        ) : (
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Converted (UTC)</th>
+                  <th>Offer</th>
+                  <th>User</th>
+                  <th className={styles.numeric}>Points</th>
+                  <th>Signals</th>
+                  <th>Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {held.map((conversion) => (
+                  <tr key={conversion.id}>
+                    <td>{formatTimestamp(conversion.convertedAt)}</td>
+                    <td className={styles.mono}>{conversion.network}#{conversion.offerId}</td>
+                    <td className={styles.mono}>{conversion.userId ?? "—"}</td>
+                    <td className={styles.numeric}>{conversion.points}</td>
+                    <td>
+                      {conversion.fraud.signals.map((signal) => (
+                        <div key={signal.rule}>
+                          <span className={styles.badgeWarn}>+{signal.score}</span> {signal.detail}
+                        </div>
+                      ))}
+                    </td>
+                    <td>
+                      <form action={submitReview} className={styles.reviewActions}>
+                        <input type="hidden" name="conversionId" value={conversion.id} />
+                        <button type="submit" name="decision" value="approve">Approve</button>
+                        <button type="submit" name="decision" value="reject">Reject</button>
+                      </form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>Recent conversions</h2>
+        <p className={styles.muted}>Latest {RECENT_LIMIT} conversions by the time the postback was received.</p>
+        {recent.length === 0 ? (
+          <p className={styles.muted}>No conversions recorded yet.</p>
+        ) : (
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Received (UTC)</th>
+                  <th>Converted (UTC)</th>
+                  <th>Offer</th>
+                  <th>Click</th>
+                  <th>User</th>
+                  <th className={styles.numeric}>Payout</th>
+                  <th className={styles.numeric}>Points</th>
+                  <th>Fraud</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((conversion) => (
+                  <tr key={conversion.id}>
+                    <td>{formatTimestamp(conversion.createdAt)}</td>
+                    <td>{formatTimestamp(conversion.convertedAt)}</td>
+                    <td className={styles.mono}>{conversion.network}#{conversion.offerId}</td>
+                    <td className={styles.mono}>{conversion.clickId}</td>
+                    <td className={styles.mono}>{conversion.userId ?? "—"}</td>
+                    <td className={styles.numeric}>{formatUsd(conversion.payoutUsd)}</td>
+                    <td className={styles.numeric}>{conversion.points}</td>
+                    <td><FraudSummary conversion={conversion} /></td>
+                    <td><StatusBadge conversion={conversion} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,243 @@
+import { headers } from "next/headers";
+import { applyPins, curateOffers, getCurationConfig } from "@/lib/curation";
+import { describeDevice } from "@/lib/device";
+import { buildOfferQuery, inspectOfferFeed, OfferFeedError } from "@/lib/offers";
+import { offerKey } from "@/lib/offer-providers";
+import { rankOffers } from "@/lib/ranking";
+import styles from "../admin.module.css";
+import { formatPercent, formatUsd } from "../format";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+function firstValue(value: string | string[] | undefined) {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single?.trim() || null;
+}
+
+export default async function AdminFeedPage({ searchParams }: { searchParams: SearchParams }) {
+  const params = await searchParams;
+  const requestHeaders = await headers();
+  const ip = firstValue(params.ip);
+  const userAgent = firstValue(params.userAgent) ?? requestHeaders.get("user-agent") ?? "OgadsNextApp/1.0";
+  const formFactor = firstValue(params.formFactor);
+  const os = firstValue(params.os);
+
+  return (
+    <>
+      <section className={styles.section}>
+        <h1 className={styles.sectionTitle}>Live feed</h1>
+        <p className={styles.muted}>
+          Fetches the feed of every enabled network for a visitor directly (bypassing the cache) and shows why each
+          offer was or was not shown.
+        </p>
+        <form className={styles.form} method="get">
+          <label>
+            Visitor IP
+            <input name="ip" defaultValue={ip ?? ""} placeholder="203.0.113.7" required />
+          </label>
+          <label>
+            User agent
+            <input name="userAgent" defaultValue={userAgent} />
+          </label>
+          <label>
+            Form factor
+            <select name="formFactor" defaultValue={formFactor ?? ""}>
+              <option value="">Detect</option>
+              <option value="mobile">Mobile</option>
+              <option value="tablet">Tablet</option>
+              <option value="desktop">Desktop</option>
+            </select>
+          </label>
+          <label>
+            OS
+            <select name="os" defaultValue={os ?? ""}>
+              <option value="">Detect</option>
+              <option value="android">Android</option>
+              <option value="ios">iOS</option>
+              <option value="windows">Windows</option>
+              <option value="macos">macOS</option>
+              <option value="linux">Linux</option>
+            </select>
+          </label>
+          <button type="submit">Inspect feed</button>
+        </form>
+      </section>
+
+      {ip ? <FeedInspection ip={ip} userAgent={userAgent} formFactor={formFactor} os={os} /> : null}
+    </>
+  );
+}
+
+async function FeedInspection({
+  ip,
+  userAgent,
+  formFactor,
+  os,
+}: {
+  ip: string;
+  userAgent: string;
+  formFactor: string | null;
+  os: string | null;
+}) {
+  const query = await buildOfferQuery({ clientIp: ip, userAgent, formFactor, os });
+
+  let inspection;
+  try {
+    inspection = await inspectOfferFeed(query);
+  } catch (error) {
+    if (error instanceof OfferFeedError) {
+      return <div className={styles.error}>Feed request failed ({error.status}): {error.message}</div>;
+    }
+    throw error;
+  }
+
+  const curationConfig = await getCurationConfig();
+  const eligible = inspection.offers.filter((entry) => entry.excludedBy.length === 0).map((entry) => entry.offer);
+  const curation = curateOffers(eligible, curationConfig, query.country);
+  const visitorFeed = applyPins(rankOffers(curation.offers), curationConfig, query.country, curation.reports);
+  const reportsByOffer = new Map(curation.reports.map((report) => [offerKey(report.network, report.offerId), report]));
+
+  return (
+    <>
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>Visitor</h2>
+        <div className={styles.summary}>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Location</span>
+            <span>
+              {query.geo
+                ? [query.geo.city, query.geo.region, query.geo.countryCode].filter(Boolean).join(", ")
+                : "Unknown"}
+            </span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Network</span>
+            <span>{query.geo?.asn ? `AS${query.geo.asn} ${query.geo.asOrganization ?? ""}` : "Unknown"}</span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Device</span>
+            <span>{describeDevice(query.device)}</span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Upstream / shown</span>
+            <span className={styles.metricValue}>
+              {inspection.offers.length} / {visitorFeed.length}
+            </span>
+          </div>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>Visitor feed</h2>
+        <p className={styles.muted}>After filtering, curation and the default ranking.</p>
+        <div className={styles.tableWrap}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th className={styles.numeric}>#</th>
+                <th>Offer</th>
+                <th>Type</th>
+                <th className={styles.numeric}>Payout</th>
+                <th className={styles.numeric}>EPC</th>
+                <th className={styles.numeric}>CVR</th>
+                <th>Curation</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visitorFeed.map((offer, index) => (
+                <tr key={`${offer.network}-${offer.id}`}>
+                  <td className={styles.numeric}>{index + 1}</td>
+                  <td className={styles.truncate}>
+                    <span className={styles.mono}>{offer.network}#{offer.id}</span> {offer.name}
+                  </td>
+                  <td>{offer.type ?? "—"}</td>
+                  <td className={styles.numeric}>{offer.payoutLabel ?? formatUsd(offer.payout)}</td>
+                  <td className={styles.numeric}>{formatUsd(offer.epc, 4)}</td>
+                  <td className={styles.numeric}>{formatPercent(offer.cvr)}</td>
+                  <td>{reportsByOffer.get(offerKey(offer.network, offer.id))?.matched.join(", ") ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>Raw upstream feed</h2>
+        <div className={styles.tableWrap}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Offer</th>
+                <th>Type</th>
+                <th>Devices</th>
+                <th>Countries</th>
+                <th className={styles.numeric}>Payout</th>
+                <th className={styles.numeric}>EPC</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {inspection.offers.map(({ offer, excludedBy }) => {
+                const report = reportsByOffer.get(offerKey(offer.network, offer.id));
+                return (
+                  <tr key={`${offer.network}-${offer.id}`}>
+                    <td className={styles.truncate}>
+                      <span className={styles.mono}>{offer.network}#{offer.id}</span> {offer.name}
+                    </td>
+                    <td>{offer.type ?? "—"}</td>
+                    <td className={styles.truncate}>{offer.devices.join(", ") || "Any"}</td>
+                    <td className={styles.truncate}>{offer.countryCodes.join(", ") || "Any"}</td>
+                    <td className={styles.numeric}>{formatUsd(offer.payout)}</td>
+                    <td className={styles.numeric}>{formatUsd(offer.epc, 4)}</td>
+                    <td>
+                      {excludedBy.map((reason) => (
+                        <span key={reason} className={styles.badgeError}>{reason}</span>
+                      ))}
+                      {excludedBy.length === 0 && report?.blocked ? (
+                        <span className={styles.badgeWarn}>curation: {report.matched.join(", ") || "not allowed"}</span>
+                      ) : null}
+                      {excludedBy.length === 0 && !report?.blocked ? <span className={styles.badgeOk}>shown</span> : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {inspection.diagnostics.length > 0 ? (
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Validation diagnostics</h2>
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th className={styles.numeric}>Index</th>
+                  <th>Offer</th>
+                  <th>Field</th>
+                  <th>Action</th>
+                  <th>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inspection.diagnostics.map((diagnostic, index) => (
+                  <tr key={index}>
+                    <td className={styles.numeric}>{diagnostic.index}</td>
+                    <td className={styles.mono}>{diagnostic.offerId ?? "—"}</td>
+                    <td className={styles.mono}>{diagnostic.field}</td>
+                    <td>{diagnostic.action}</td>
+                    <td>{diagnostic.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : null}
+    </>
+  );
+}
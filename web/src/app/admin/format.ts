@@ -0,0 +1,18 @@
+export function formatUsd(value: number | null, digits = 2) {
+  if (value === null) return "—";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+}
+
+export function formatPercent(value: number | null) {
+  return value === null ? "—" : `${value.toFixed(2)}%`;
+}
+
+export function formatTimestamp(value: string | null) {
+  if (!value) return "—";
+  return new Date(value).toISOString().replace("T", " ").slice(0, 19);
+}
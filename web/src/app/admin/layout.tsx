@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import styles from "./admin.module.css";
+
+export const metadata: Metadata = {
+  title: "OGAds Admin",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className={styles.shell}>
+      <header className={styles.header}>
+        <span className={styles.brand}>OGAds Admin</span>
+        <nav className={styles.nav}>
+          <Link href="/admin">Offers</Link>
+          <Link href="/admin/feed">Live feed</Link>
+          <Link href="/admin/clicks">Clicks</Link>
+          <Link href="/admin/conversions">Conversions</Link>
+          <Link href="/admin/lockers">Lockers</Link>
+        </nav>
+      </header>
+      <main className={styles.main}>{children}</main>
+    </div>
+  );
+}
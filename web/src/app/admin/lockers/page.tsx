@@ -0,0 +1,129 @@
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { createLocker, deleteLocker, listLockers, LOCKER_FILES_DIR, LockerError } from "@/lib/lockers";
+import styles from "../admin.module.css";
+import { formatTimestamp } from "../format";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+async function submitLocker(formData: FormData) {
+  "use server";
+
+  try {
+    await createLocker({
+      title: String(formData.get("title") ?? ""),
+      description: String(formData.get("description") ?? ""),
+      kind: String(formData.get("kind") ?? ""),
+      content: String(formData.get("content") ?? ""),
+      requiredCompletions: Number(formData.get("requiredCompletions") || 0),
+      requiredPoints: Number(formData.get("requiredPoints") || 0),
+    });
+  } catch (error) {
+    if (!(error instanceof LockerError)) throw error;
+    redirect("/admin/lockers?error=" + encodeURIComponent(error.message));
+  }
+  revalidatePath("/admin/lockers");
+}
+
+async function removeLocker(formData: FormData) {
+  "use server";
+
+  await deleteLocker(String(formData.get("lockerId") ?? ""));
+  revalidatePath("/admin/lockers");
+}
+
+export default async function AdminLockersPage({ searchParams }: { searchParams: SearchParams }) {
+  const params = await searchParams;
+  const error = Array.isArray(params.error) ? params.error[0] : params.error;
+  const lockers = (await listLockers()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <>
+      <section className={styles.section}>
+        <h1 className={styles.sectionTitle}>Content lockers</h1>
+        <p className={styles.muted}>
+          Gate a link, a file or a text snippet behind offer completions. Send visitors to the wall with{" "}
+          <span className={styles.mono}>?locker=&lt;id&gt;</span> to open the locker. Files are served from{" "}
+          <span className={styles.mono}>{LOCKER_FILES_DIR}</span>.
+        </p>
+        {error ? <div className={styles.error}>{error}</div> : null}
+        <form className={styles.form} action={submitLocker}>
+          <label>
+            Title
+            <input name="title" required maxLength={100} />
+          </label>
+          <label>
+            Description
+            <input name="description" maxLength={500} />
+          </label>
+          <label>
+            Kind
+            <select name="kind" defaultValue="url">
+              <option value="url">URL</option>
+              <option value="file">File</option>
+              <option value="text">Text</option>
+            </select>
+          </label>
+          <label>
+            Content (URL, file name or text)
+            <input name="content" required />
+          </label>
+          <label>
+            Required completions
+            <input name="requiredCompletions" type="number" min={0} step={1} defaultValue={1} />
+          </label>
+          <label>
+            Required points
+            <input name="requiredPoints" type="number" min={0} step={1} defaultValue={0} />
+          </label>
+          <button type="submit">Create locker</button>
+        </form>
+      </section>
+
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>Lockers ({lockers.length})</h2>
+        {lockers.length === 0 ? (
+          <p className={styles.muted}>No lockers defined yet.</p>
+        ) : (
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Created (UTC)</th>
+                  <th>Locker</th>
+                  <th>Title</th>
+                  <th>Kind</th>
+                  <th>Content</th>
+                  <th className={styles.numeric}>Completions</th>
+                  <th className={styles.numeric}>Points</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {lockers.map((locker) => (
+                  <tr key={locker.id}>
+                    <td>{formatTimestamp(locker.createdAt)}</td>
+                    <td className={styles.mono}>{locker.id}</td>
+                    <td>{locker.title}</td>
+                    <td>{locker.kind}</td>
+                    <td className={styles.truncate} title={locker.content}>{locker.content}</td>
+                    <td className={styles.numeric}>{locker.requiredCompletions}</td>
+                    <td className={styles.numeric}>{locker.requiredPoints}</td>
+                    <td>
+                      <form action={removeLocker} className={styles.reviewActions}>
+                        <input type="hidden" name="lockerId" value={locker.id} />
+                        <button type="submit">Delete</button>
+                      </form>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+import { getOfferStats } from "@/lib/offer-stats";
+import styles from "./admin.module.css";
+import { formatPercent, formatUsd } from "./format";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminOffersPage() {
+  const stats = await getOfferStats();
+  const totals = stats.reduce(
+    (sum, entry) => ({
+      clicks: sum.clicks + entry.clicks,
+      conversions: sum.conversions + entry.conversions,
+      held: sum.held + entry.held,
+      revenueUsd: sum.revenueUsd + entry.revenueUsd,
+    }),
+    { clicks: 0, conversions: 0, held: 0, revenueUsd: 0 }
+  );
+
+  return (
+    <>
+      <section className={styles.section}>
+        <h1 className={styles.sectionTitle}>Totals</h1>
+        <div className={styles.summary}>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Clicks</span>
+            <span className={styles.metricValue}>{totals.clicks}</span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Conversions</span>
+            <span className={styles.metricValue}>{totals.conversions}</span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Held for review</span>
+            <span className={styles.metricValue}>{totals.held}</span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>Revenue</span>
+            <span className={styles.metricValue}>{formatUsd(totals.revenueUsd)}</span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>CVR</span>
+            <span className={styles.metricValue}>
+              {formatPercent(totals.clicks > 0 ? (totals.conversions / totals.clicks) * 100 : null)}
+            </span>
+          </div>
+          <div className={styles.metric}>
+            <span className={styles.muted}>EPC</span>
+            <span className={styles.metricValue}>
+              {formatUsd(totals.clicks > 0 ? totals.revenueUsd / totals.clicks : null, 4)}
+            </span>
+          </div>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>Per-offer performance</h2>
+        <p className={styles.muted}>
+          CVR and EPC are measured from recorded clicks and approved postbacks; held and rejected conversions are
+          counted separately. Reported EPC is the OGAds value averaged over
+          the clicks it was captured for.
+        </p>
+        {stats.length === 0 ? (
+          <p className={styles.muted}>No clicks or conversions recorded yet.</p>
+        ) : (
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Offer</th>
+                  <th className={styles.numeric}>Clicks</th>
+                  <th className={styles.numeric}>Conversions</th>
+                  <th className={styles.numeric}>Held</th>
+                  <th className={styles.numeric}>Rejected</th>
+                  <th className={styles.numeric}>Reversals</th>
+                  <th className={styles.numeric}>Revenue</th>
+                  <th className={styles.numeric}>CVR</th>
+                  <th className={styles.numeric}>EPC</th>
+                  <th className={styles.numeric}>Reported EPC</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((entry) => (
+                  <tr key={`${entry.network}-${entry.offerId}`}>
+                    <td className={styles.truncate}>
+                      <span className={styles.mono}>{entry.network}#{entry.offerId}</span> {entry.offerName ?? ""}
+                    </td>
+                    <td className={styles.numeric}>{entry.clicks}</td>
+                    <td className={styles.numeric}>{entry.conversions}</td>
+                    <td className={styles.numeric}>{entry.held}</td>
+                    <td className={styles.numeric}>{entry.rejected}</td>
+                    <td className={styles.numeric}>{entry.reversals}</td>
+                    <td className={styles.numeric}>{formatUsd(entry.revenueUsd)}</td>
+                    <td className={styles.numeric}>{formatPercent(entry.cvr)}</td>
+                    <td className={styles.numeric}>{formatUsd(entry.epc, 4)}</td>
+                    <td className={styles.numeric}>{formatUsd(entry.reportedEpc, 4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
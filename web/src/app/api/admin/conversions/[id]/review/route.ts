@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withSameOriginJson } from "@/lib/admin-requests";
+import { ConversionReviewError, reviewConversion } from "@/lib/postbacks";
+
+async function submitReview(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let decision: unknown;
+  try {
+    ({ decision } = await request.json());
+  } catch {
+    decision = undefined;
+  }
+
+  if (decision !== "approve" && decision !== "reject") {
+    return NextResponse.json(
+      { error: 'decision must be "approve" or "reject"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { conversion, ledgerEntry } = await reviewConversion(id, decision);
+    return NextResponse.json({ conversion, ledgerEntry });
+  } catch (error) {
+    if (error instanceof ConversionReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to review conversion", error);
+    return NextResponse.json(
+      { error: "Failed to review conversion" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withSameOriginJson(submitReview);
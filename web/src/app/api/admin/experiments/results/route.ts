@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ExperimentQueryError,
+  ExperimentResultsParams,
+  getExperimentResults,
+  parseExperimentResultsParams,
+} from "@/lib/experiments";
+
+function invalidQuery(error: ExperimentQueryError) {
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: "INVALID_QUERY",
+      param: error.param,
+      timestamp: new Date().toISOString(),
+    },
+    { status: 400 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  let params: ExperimentResultsParams;
+  try {
+    params = parseExperimentResultsParams(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof ExperimentQueryError) {
+      return invalidQuery(error);
+    }
+    throw error;
+  }
+
+  try {
+    return NextResponse.json({ experiments: await getExperimentResults(params) });
+  } catch (error) {
+    if (error instanceof ExperimentQueryError) {
+      return invalidQuery(error);
+    }
+
+    console.error("Failed to build experiment results", error);
+    return NextResponse.json(
+      { error: "Failed to build experiment results" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withSameOriginJson } from "@/lib/admin-requests";
+import { replayDeadDeliveries } from "@/lib/webhooks";
+
+async function replay(request: NextRequest) {
+  let body: { ids?: unknown; all?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  // Replaying everything must be asked for, never the fallback of a missing field.
+  const { ids, all } = body ?? {};
+  const replayAll = all === true && ids === undefined;
+  if (!replayAll && (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))) {
+    return NextResponse.json(
+      { error: 'Send { "ids": [...] } with delivery ids, or { "all": true }' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const replayed = await replayDeadDeliveries(replayAll ? undefined : (ids as string[]));
+    return NextResponse.json({ replayed: replayed.length, ids: replayed.map((delivery) => delivery.id) });
+  } catch (error) {
+    console.error("Failed to replay dead webhook deliveries", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withSameOriginJson(replay);
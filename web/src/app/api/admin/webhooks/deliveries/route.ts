@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { WebhookDeliveryStatus } from "@/types/webhooks";
+import { listWebhookDeliveries } from "@/lib/webhooks";
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["pending", "delivered", "dead"];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const status = searchParams.get("status");
+  if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const requestedLimit = Number.parseInt(searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    const deliveries = (await listWebhookDeliveries())
+      .filter((delivery) => !status || delivery.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return NextResponse.json({ total: deliveries.length, deliveries: deliveries.slice(0, limit) });
+  } catch (error) {
+    console.error("Failed to list webhook deliveries", error);
+    return NextResponse.json(
+      { error: "Failed to list webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
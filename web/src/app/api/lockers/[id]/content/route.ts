@@ -0,0 +1,55 @@
+import { promises as fs } from "fs";
+import { NextRequest, NextResponse } from "next/server";
+import { findLocker, resolveLockerFile } from "@/lib/lockers";
+import { parseRateLimit, withRateLimit } from "@/lib/rate-limit";
+import { verifyUnlockToken } from "@/lib/unlock-tokens";
+
+const LOCKERS_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_LOCKERS, { capacity: 60, windowMs: 60 * 1000 });
+
+async function getLockerContent(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const token = request.nextUrl.searchParams.get("token")?.trim();
+
+  if (!token) {
+    return NextResponse.json({ error: "token is required" }, { status: 400 });
+  }
+
+  const verification = verifyUnlockToken(token, id);
+  if (!verification.valid) {
+    return NextResponse.json(
+      { error: "Unlock token is not valid", reason: verification.reason },
+      { status: verification.reason === "expired" ? 410 : 403 }
+    );
+  }
+
+  try {
+    const locker = await findLocker(id);
+    if (!locker) {
+      return NextResponse.json({ error: "Locker not found" }, { status: 404 });
+    }
+
+    if (locker.kind === "file") {
+      const contents = await fs.readFile(resolveLockerFile(locker.content));
+      return new NextResponse(new Uint8Array(contents), {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${locker.content.replace(/"/g, "")}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return NextResponse.json(
+      { kind: locker.kind, content: locker.content },
+      { headers: { "Cache-Control": "private, no-store" } }
+    );
+  } catch (error) {
+    console.error("Failed to load locker content", error);
+    return NextResponse.json(
+      { error: "Failed to load locked content" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit({ name: "lockers", limit: LOCKERS_RATE_LIMIT }, getLockerContent);
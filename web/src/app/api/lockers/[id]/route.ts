@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findLocker, toPublicLocker } from "@/lib/lockers";
+import { parseRateLimit, withRateLimit } from "@/lib/rate-limit";
+
+const LOCKERS_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_LOCKERS, { capacity: 60, windowMs: 60 * 1000 });
+
+async function getLocker(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const locker = await findLocker(id);
+    if (!locker) {
+      return NextResponse.json({ error: "Locker not found" }, { status: 404 });
+    }
+    return NextResponse.json({ locker: toPublicLocker(locker) });
+  } catch (error) {
+    console.error("Failed to load locker", error);
+    return NextResponse.json(
+      { error: "Failed to load locker" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit({ name: "lockers", limit: LOCKERS_RATE_LIMIT }, getLocker);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findLocker, getLockerProgress } from "@/lib/lockers";
+import { parseRateLimit, sourceIpIdentity, withRateLimit } from "@/lib/rate-limit";
+import { issueUnlockToken } from "@/lib/unlock-tokens";
+
+const LOCKERS_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_LOCKERS, { capacity: 60, windowMs: 60 * 1000 });
+
+async function getUnlockStatus(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const userId = request.nextUrl.searchParams.get("userId")?.trim();
+
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required" }, { status: 400 });
+  }
+
+  try {
+    const locker = await findLocker(id);
+    if (!locker) {
+      return NextResponse.json({ error: "Locker not found" }, { status: 404 });
+    }
+
+    const progress = await getLockerProgress(locker, userId);
+    const unlock = progress.unlocked ? issueUnlockToken(locker.id, userId) : null;
+
+    return NextResponse.json(
+      {
+        ...progress,
+        requiredCompletions: locker.requiredCompletions,
+        requiredPoints: locker.requiredPoints,
+        token: unlock?.token ?? null,
+        expiresAt: unlock?.expiresAt ?? null,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Failed to load locker status", error);
+    return NextResponse.json(
+      { error: "Failed to load unlock status" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit(
+  {
+    name: "lockers",
+    limit: LOCKERS_RATE_LIMIT,
+    identify: (request) => {
+      const userId = request.nextUrl.searchParams.get("userId")?.trim();
+      return [sourceIpIdentity(request), userId ? `user:${userId}` : null];
+    },
+  },
+  getUnlockStatus
+);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurationConfig } from "@/lib/curation";
+import {
+  findRememberedOfferImage,
+  getOfferImage,
+  getPlaceholderImage,
+  OFFER_IMAGE_WIDTHS,
+  OfferImage,
+  OfferImageError,
+  OfferImageFormat,
+  parseOfferImageWidth,
+  rememberOfferImages,
+} from "@/lib/offer-images";
+import { DEFAULT_NETWORK, offerKey } from "@/lib/offer-providers";
+import { getOfferFeed, resolveOfferQuery } from "@/lib/offers";
+import { parseRateLimit, withRateLimit } from "@/lib/rate-limit";
+
+const IMAGES_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_IMAGES, { capacity: 300, windowMs: 60 * 1000 });
+const IMAGE_MAX_AGE_SECONDS = 60 * 60;
+const PLACEHOLDER_MAX_AGE_SECONDS = 5 * 60;
+
+// Curation overrides win; otherwise use the picture from a feed this process
+// has mapped, loading the visitor's feed when none has been seen yet.
+async function resolveSourceUrl(request: NextRequest, network: string, offerId: number): Promise<string | null> {
+  const override = (await getCurationConfig()).overrides[offerKey(network, offerId)]?.imageUrl;
+  if (override) return override;
+
+  const remembered = findRememberedOfferImage(network, offerId);
+  if (remembered) return remembered;
+
+  const feed = await getOfferFeed(await resolveOfferQuery(request));
+  rememberOfferImages(feed.offers);
+  return findRememberedOfferImage(network, offerId);
+}
+
+function imageResponse(image: OfferImage, maxAgeSeconds: number, fallbackReason?: string) {
+  return new NextResponse(new Uint8Array(image.body), {
+    headers: {
+      "Content-Type": image.contentType,
+      "Cache-Control": `public, max-age=${maxAgeSeconds}`,
+      Vary: "Accept",
+      "X-Cache": image.cacheStatus,
+      ...(fallbackReason ? { "X-Image-Fallback": fallbackReason } : {}),
+    },
+  });
+}
+
+async function getImage(request: NextRequest, { params }: { params: Promise<{ offerId: string }> }) {
+  const { offerId: rawOfferId } = await params;
+  if (!/^\d+$/.test(rawOfferId)) {
+    return NextResponse.json({ error: "offerId must be a positive integer" }, { status: 400 });
+  }
+
+  const width = parseOfferImageWidth(request.nextUrl.searchParams.get("w"));
+  if (!width) {
+    return NextResponse.json(
+      { error: `w must be one of: ${OFFER_IMAGE_WIDTHS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const network = request.nextUrl.searchParams.get("network") || DEFAULT_NETWORK;
+  const format: OfferImageFormat = request.headers.get("accept")?.includes("image/webp") ? "webp" : "jpeg";
+
+  const placeholder = async (reason: string) =>
+    imageResponse(await getPlaceholderImage(width, format), PLACEHOLDER_MAX_AGE_SECONDS, reason);
+
+  let sourceUrl: string | null;
+  try {
+    sourceUrl = await resolveSourceUrl(request, network, Number(rawOfferId));
+  } catch (error) {
+    console.warn(`Could not resolve the image for offer ${rawOfferId}`, error);
+    return placeholder("feed_unavailable");
+  }
+  if (!sourceUrl) {
+    return placeholder("unknown_offer");
+  }
+
+  try {
+    return imageResponse(await getOfferImage(sourceUrl, width, format), IMAGE_MAX_AGE_SECONDS);
+  } catch (error) {
+    if (error instanceof OfferImageError) {
+      console.warn(`Serving placeholder for offer ${rawOfferId} (${error.reason}): ${error.message}`);
+      return placeholder(error.reason);
+    }
+    throw error;
+  }
+}
+
+export const GET = withRateLimit({ name: "images", limit: IMAGES_RATE_LIMIT }, getImage);
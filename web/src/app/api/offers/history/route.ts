@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getOfferHistory,
+  listOfferHistoryProfiles,
+  OfferHistoryParams,
+  OfferHistoryQueryError,
+  parseOfferHistoryParams,
+} from "@/lib/offer-history";
+
+export async function GET(request: NextRequest) {
+  let params: OfferHistoryParams;
+  try {
+    params = parseOfferHistoryParams(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof OfferHistoryQueryError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "INVALID_QUERY",
+          param: error.param,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const { profile } = params;
+    if (!profile) {
+      return NextResponse.json({ profiles: await listOfferHistoryProfiles() });
+    }
+    return NextResponse.json(await getOfferHistory({ ...params, profile }));
+  } catch (error) {
+    console.error("Failed to load offer history", error);
+    return NextResponse.json(
+      { error: "Failed to load offer history" },
+      { status: 500 }
+    );
+  }
+}
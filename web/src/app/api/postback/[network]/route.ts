@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { handlePostback } from "@/lib/postback-handler";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ network: string }> }) {
+  const { network } = await params;
+  return handlePostback(request, network.toLowerCase());
+}
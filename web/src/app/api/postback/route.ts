@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { DEFAULT_NETWORK } from "@/lib/offer-providers";
+import { handlePostback } from "@/lib/postback-handler";
+
+// Postback URL configured in OGAds before per-network routes existed.
+export function GET(request: NextRequest) {
+  return handlePostback(request, DEFAULT_NETWORK);
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildReport, parseReportParams, ReportParams, ReportQueryError, reportToCsv } from "@/lib/reports";
+
+export async function GET(request: NextRequest) {
+  let params: ReportParams;
+  try {
+    params = parseReportParams(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof ReportQueryError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: "INVALID_QUERY",
+          param: error.param,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const report = await buildReport(params);
+
+    if (params.format === "csv") {
+      const filename = `report-${report.from.slice(0, 10)}-${report.to.slice(0, 10)}.csv`;
+      return new NextResponse(reportToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to build report", error);
+    return NextResponse.json(
+      { error: "Failed to build report" },
+      { status: 500 }
+    );
+  }
+}
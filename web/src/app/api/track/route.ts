@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordClick } from "@/lib/clicks";
+import { curateOffers, getCurationConfig } from "@/lib/curation";
+import { EXPERIMENT_COOKIE, getVisitorExperiments, resolveExperimentKey } from "@/lib/experiments";
+import { screenClick } from "@/lib/fraud";
+import { findLocker } from "@/lib/lockers";
+import { DEFAULT_NETWORK } from "@/lib/offer-providers";
+import { findProvider, getOfferFeed, OfferFeedError, resolveOfferQuery } from "@/lib/offers";
+import { parseRateLimit, sourceIpIdentity, withRateLimit } from "@/lib/rate-limit";
+
+const TRACK_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_TRACK, { capacity: 20, windowMs: 60 * 1000 });
+const MAX_SUBID_LENGTH = 100;
+
+async function trackClick(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const offerId = Number.parseInt(searchParams.get("offerId") ?? "", 10);
+  const network = searchParams.get("network")?.trim() || DEFAULT_NETWORK;
+  const userId = searchParams.get("userId")?.trim();
+  const subid = searchParams.get("subid")?.trim() || null;
+  const lockerId = searchParams.get("lockerId")?.trim() || null;
+
+  if (!Number.isFinite(offerId) || !userId) {
+    return NextResponse.json(
+      { error: "offerId and userId are required" },
+      { status: 400 }
+    );
+  }
+
+  if (subid && subid.length > MAX_SUBID_LENGTH) {
+    return NextResponse.json(
+      { error: `subid must be at most ${MAX_SUBID_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (lockerId && !(await findLocker(lockerId))) {
+      return NextResponse.json(
+        { error: "Locker not found" },
+        { status: 404 }
+      );
+    }
+
+    const query = await resolveOfferQuery(request);
+    if (query.device.isBot) {
+      return NextResponse.json(
+        { error: "Automated clients cannot open offers" },
+        { status: 403 }
+      );
+    }
+
+    const feed = await getOfferFeed(query);
+    const { offers } = curateOffers(feed.offers, await getCurationConfig(), query.country);
+    const offer = offers.find((candidate) => candidate.network === network && candidate.id === offerId);
+    const provider = offer ? findProvider(offer.network) : null;
+    if (!offer || !provider) {
+      return NextResponse.json(
+        { error: "Offer is not available for this visitor" },
+        { status: 404 }
+      );
+    }
+
+    const fraud = await screenClick({ userId, ip: query.clientIp });
+    if (fraud.signals.length > 0) {
+      console.warn({
+        type: "click_flagged",
+        network,
+        offerId,
+        userId,
+        ip: query.clientIp,
+        score: fraud.score,
+        signals: fraud.signals,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const experiments = await getVisitorExperiments(
+      resolveExperimentKey(request.cookies.get(EXPERIMENT_COOKIE)?.value, userId)
+    );
+
+    const click = await recordClick({
+      userId,
+      network,
+      offerId,
+      offerName: offer.name,
+      reportedEpc: offer.epc,
+      subid,
+      lockerId,
+      experiments: experiments.assignments,
+      ip: query.clientIp,
+      country: query.country,
+      formFactor: query.device.formFactor,
+      os: query.device.os,
+      userAgent: request.headers.get("user-agent"),
+      fraud,
+    });
+
+    return NextResponse.redirect(provider.buildTrackingUrl(offer, click), 302);
+  } catch (error) {
+    if (error instanceof OfferFeedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to track offer click", error);
+    return NextResponse.json(
+      { error: "Failed to track click" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRateLimit(
+  {
+    name: "track",
+    limit: TRACK_RATE_LIMIT,
+    identify: (request) => {
+      const userId = request.nextUrl.searchParams.get("userId")?.trim();
+      return [sourceIpIdentity(request), userId ? `user:${userId}` : null];
+    },
+  },
+  trackClick
+);
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { siteCorsPreflight, withSiteCors } from "@/lib/embed-sites";
+import { getBalance, POINTS_PER_USD } from "@/lib/ledger";
+import { parseRateLimit, withRateLimit } from "@/lib/rate-limit";
+
+const USERS_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_USERS, { capacity: 60, windowMs: 60 * 1000 });
+
+async function getBalanceForUser(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const balance = await getBalance(id);
+    return NextResponse.json({ userId: id, balance, pointsPerUsd: POINTS_PER_USD });
+  } catch (error) {
+    console.error("Failed to load user balance", error);
+    return NextResponse.json(
+      { error: "Failed to load balance" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withSiteCors(withRateLimit({ name: "users", limit: USERS_RATE_LIMIT }, getBalanceForUser));
+export const OPTIONS = siteCorsPreflight;
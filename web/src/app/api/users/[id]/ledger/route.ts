@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { siteCorsPreflight, withSiteCors } from "@/lib/embed-sites";
+import { getLedgerEntries } from "@/lib/ledger";
+import { parseRateLimit, withRateLimit } from "@/lib/rate-limit";
+
+const USERS_RATE_LIMIT = parseRateLimit(process.env.RATE_LIMIT_USERS, { capacity: 60, windowMs: 60 * 1000 });
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+async function getLedgerForUser(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const requestedLimit = Number.parseInt(request.nextUrl.searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  try {
+    const entries = await getLedgerEntries(id);
+    const balance = entries.reduce((total, entry) => total + entry.points, 0);
+    return NextResponse.json({ userId: id, balance, entries: entries.slice(0, limit) });
+  } catch (error) {
+    console.error("Failed to load user ledger", error);
+    return NextResponse.json(
+      { error: "Failed to load ledger" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withSiteCors(withRateLimit({ name: "users", limit: USERS_RATE_LIMIT }, getLedgerForUser));
+export const OPTIONS = siteCorsPreflight;
@@ -0,0 +1,50 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import EmbedWall from "@/components/EmbedWall";
+import { findEmbedSite, isOriginAllowed, resolveEmbedTheme } from "@/lib/embed-sites";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const MAX_USER_ID_LENGTH = 128;
+const MAX_SUBID_LENGTH = 100;
+
+function firstValue(value: string | string[] | undefined) {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single?.trim() || null;
+}
+
+export default async function EmbedPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ siteKey: string }>;
+  searchParams: SearchParams;
+}) {
+  const { siteKey } = await params;
+  const query = await searchParams;
+  const site = await findEmbedSite(siteKey);
+  if (!site) {
+    notFound();
+  }
+
+  // Framing is enforced by the middleware's frame-ancestors policy. The origin
+  // embed.js passes is only where to post events, and only if it is allowed.
+  const originHint = firstValue(query.origin);
+  const parentOrigin = isOriginAllowed(site, originHint) ? originHint : null;
+
+  return (
+    <EmbedWall
+      siteKey={site.key}
+      userId={firstValue(query.userId)?.slice(0, MAX_USER_ID_LENGTH) ?? null}
+      subid={firstValue(query.subid)?.slice(0, MAX_SUBID_LENGTH) ?? null}
+      theme={resolveEmbedTheme(site.theme, { mode: firstValue(query.theme), accent: firstValue(query.accent) })}
+      parentOrigin={parentOrigin}
+    />
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+import styles from "./page.module.css";
+
+export default function ErrorBoundary({ error, reset }: { error: Error & { digest?: string }; reset: () => void }) {
+  useEffect(() => {
+    console.error(error);
+  }, [error]);
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.backdrop} />
+      <main className={styles.container}>
+        <section className={styles.stateCard}>
+          <p className={styles.stateTitle}>Something went wrong while loading the offer wall.</p>
+          <p className={styles.stateDescription}>Please try again in a moment.</p>
+          <button className={styles.refreshButton} type="button" onClick={reset}>
+            Try again
+          </button>
+        </section>
+      </main>
+    </div>
+  );
+}
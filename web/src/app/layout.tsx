@@ -13,8 +13,11 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: {
+    default: "Offer Wall",
+    template: "%s | Offer Wall",
+  },
+  description: "Complete offers matched to your location and device to earn rewards.",
 };
 
 export default function RootLayout({
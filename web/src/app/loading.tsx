@@ -0,0 +1,17 @@
+import styles from "./page.module.css";
+
+export default function Loading() {
+  return (
+    <div className={styles.page}>
+      <div className={styles.backdrop} />
+      <main className={styles.container}>
+        <section className={styles.stateCard}>
+          <p className={styles.stateTitle}>Fetching offers for you…</p>
+          <p className={styles.stateDescription}>
+            Hang tight while we contact OGAds and tailor the feed to your area.
+          </p>
+        </section>
+      </main>
+    </div>
+  );
+}
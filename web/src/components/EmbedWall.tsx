@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import styles from "./EmbedWall.module.css";
+import OfferGrid from "@/components/OfferGrid";
+import { parseUserAgent } from "@/lib/device";
+import type { EmbedTheme } from "@/lib/embed-sites";
+import type { OfferDisplay } from "@/types/experiments";
+import type { LedgerEntry } from "@/types/ledger";
+import type { Offer } from "@/types/offers";
+
+const COMPLETION_POLL_INTERVAL_MS = 15000;
+
+/** Messages posted to the host page; they all carry `source: "ogads-wall"`. */
+export type EmbedEvent =
+  | { type: "ready"; offerCount: number }
+  | { type: "resize"; height: number }
+  | { type: "offer_click"; network: string; offerId: number; offerName: string }
+  | { type: "offer_completed"; conversionId: string; points: number; balance: number }
+  | { type: "error"; message: string };
+
+interface EmbedWallProps {
+  siteKey: string;
+  userId: string | null;
+  subid: string | null;
+  theme: EmbedTheme;
+  /** The host page origin, already checked against the site's allowed origins; null disables events. */
+  parentOrigin: string | null;
+}
+
+export default function EmbedWall({ siteKey, userId, subid, theme, parentOrigin }: EmbedWallProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [display, setDisplay] = useState<OfferDisplay | undefined>(undefined);
+  const [visitorId, setVisitorId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  function notify(event: EmbedEvent) {
+    if (parentOrigin && window.parent !== window) {
+      window.parent.postMessage({ source: "ogads-wall", siteKey, ...event }, parentOrigin);
+    }
+  }
+
+  useEffect(() => {
+    const resolvedUserId = userId ?? resolveVisitorId(siteKey);
+    setVisitorId(resolvedUserId);
+
+    const device = parseUserAgent(navigator.userAgent, { maxTouchPoints: navigator.maxTouchPoints });
+    // The user id keys experiment variants when third-party cookies are blocked.
+    const params = new URLSearchParams({ siteKey, formFactor: device.formFactor, os: device.os, userId: resolvedUserId });
+    fetch("/api/offers?" + params.toString())
+      .then(async (response) => {
+        const payload = (await response.json()) as { offers?: Offer[]; display?: OfferDisplay; error?: string };
+        if (!response.ok || !payload.offers) {
+          throw new Error(payload.error ?? "Unable to load offers.");
+        }
+        setOffers(payload.offers);
+        setDisplay(payload.display);
+        notify({ type: "ready", offerCount: payload.offers.length });
+      })
+      .catch((err: Error) => {
+        setError(err.message);
+        notify({ type: "error", message: err.message });
+      })
+      .finally(() => setLoading(false));
+    // notify only depends on props that never change for a mounted wall.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [siteKey, userId]);
+
+  // Keep the host iframe sized to the content.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      notify({ type: "resize", height: Math.ceil(container.getBoundingClientRect().height) });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Completions arrive by postback, so watch the ledger for new conversion credits.
+  useEffect(() => {
+    if (!visitorId) return;
+    let seen: Set<string> | null = null;
+    let cancelled = false;
+
+    async function poll() {
+      const response = await fetch(
+        "/api/users/" + encodeURIComponent(visitorId as string) + "/ledger?limit=20",
+        { cache: "no-store" }
+      );
+      if (!response.ok || cancelled) return;
+      const { balance, entries } = (await response.json()) as { balance: number; entries: LedgerEntry[] };
+      const credits = entries.filter((entry) => entry.kind === "credit" && entry.conversionId);
+      if (seen) {
+        for (const entry of credits) {
+          if (!seen.has(entry.id)) {
+            notify({ type: "offer_completed", conversionId: entry.conversionId as string, points: entry.points, balance });
+          }
+        }
+      }
+      seen = new Set(credits.map((entry) => entry.id));
+    }
+
+    void poll().catch(() => undefined);
+    const timer = window.setInterval(() => void poll().catch(() => undefined), COMPLETION_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visitorId]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={theme.mode === "dark" ? `${styles.wall} ${styles.dark}` : styles.wall}
+      style={{ "--wall-accent": theme.accent } as React.CSSProperties}
+    >
+      {error ? <p className={styles.state}>{error}</p> : null}
+      {loading ? <p className={styles.state}>Loading offers…</p> : null}
+      {!loading && !error && offers.length === 0 ? (
+        <p className={styles.state}>No offers are available for your device and location right now.</p>
+      ) : null}
+      <OfferGrid
+        offers={offers}
+        display={display}
+        buildHref={(offer) => (visitorId ? buildTrackHref(offer, visitorId, subid ?? siteKey) : null)}
+        onOfferClick={(offer) =>
+          notify({ type: "offer_click", network: offer.network, offerId: offer.id, offerName: offer.name })
+        }
+      />
+    </div>
+  );
+}
+
+function buildTrackHref(offer: Offer, userId: string, subid: string) {
+  const device = parseUserAgent(navigator.userAgent, { maxTouchPoints: navigator.maxTouchPoints });
+  const params = new URLSearchParams({
+    network: offer.network,
+    offerId: String(offer.id),
+    userId,
+    formFactor: device.formFactor,
+    os: device.os,
+    subid,
+  });
+  return "/api/track?" + params.toString();
+}
+
+// Without a partner-supplied user id, keep a visitor id per site.
+function resolveVisitorId(siteKey: string): string {
+  const storageKey = "ogads_visitor_id:" + siteKey;
+  try {
+    const existing = window.localStorage.getItem(storageKey);
+    if (existing) return existing;
+    const created = crypto.randomUUID();
+    window.localStorage.setItem(storageKey, created);
+    return created;
+  } catch {
+    // Storage can be blocked inside third-party iframes.
+    return crypto.randomUUID();
+  }
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./LockerModal.module.css";
+import type { LockerProgress, PublicLockedResource } from "@/types/locker";
+import type { Offer } from "@/types/offers";
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+interface LockerStatus extends LockerProgress {
+  requiredCompletions: number;
+  requiredPoints: number;
+  token: string | null;
+  expiresAt: string | null;
+}
+
+type UnlockedContent =
+  | { kind: "url" | "text"; content: string }
+  | { kind: "file"; href: string };
+
+interface LockerModalProps {
+  lockerId: string;
+  userId: string;
+  offers: Offer[];
+  buildOfferHref: (offer: Offer) => string;
+  onClose: () => void;
+}
+
+export default function LockerModal({ lockerId, userId, offers, buildOfferHref, onClose }: LockerModalProps) {
+  const [locker, setLocker] = useState<PublicLockedResource | null>(null);
+  const [status, setStatus] = useState<LockerStatus | null>(null);
+  const [content, setContent] = useState<UnlockedContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJson<{ locker: PublicLockedResource }>("/api/lockers/" + encodeURIComponent(lockerId))
+      .then((payload) => setLocker(payload.locker))
+      .catch((err: Error) => setError(err.message));
+  }, [lockerId]);
+
+  // Poll until a matching postback unlocks the resource.
+  useEffect(() => {
+    if (!locker || content) return;
+    const kind = locker.kind;
+    let cancelled = false;
+
+    async function poll() {
+      try {
+        const next = await fetchJson<LockerStatus>(
+          "/api/lockers/" + encodeURIComponent(lockerId) + "/status?userId=" + encodeURIComponent(userId)
+        );
+        if (cancelled) return;
+        setStatus(next);
+        if (next.token) {
+          setContent(await fetchUnlockedContent(lockerId, kind, next.token));
+        }
+      } catch (err) {
+        if (!cancelled && err instanceof Error) setError(err.message);
+      }
+    }
+
+    void poll();
+    const timer = window.setInterval(() => void poll(), STATUS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [locker, lockerId, userId, content]);
+
+  return (
+    <div className={styles.overlay} role="dialog" aria-modal="true" aria-labelledby="locker-title">
+      <div className={styles.modal}>
+        <header className={styles.header}>
+          <div>
+            <p className={styles.kicker}>Locked content</p>
+            <h2 id="locker-title">{locker?.title ?? "Loading…"}</h2>
+            {locker?.description ? <p className={styles.description}>{locker.description}</p> : null}
+          </div>
+          <button type="button" className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        {error ? <p className={styles.error}>{error}</p> : null}
+
+        {content ? (
+          <UnlockedView content={content} />
+        ) : (
+          <>
+            {status ? (
+              <div className={styles.progress}>
+                {status.requiredCompletions > 0 ? (
+                  <span>
+                    {Math.min(status.completions, status.requiredCompletions)} / {status.requiredCompletions} offers
+                    completed
+                  </span>
+                ) : null}
+                {status.requiredPoints > 0 ? (
+                  <span>
+                    {Math.min(status.points, status.requiredPoints).toLocaleString("en-US")} /{" "}
+                    {status.requiredPoints.toLocaleString("en-US")} points earned
+                  </span>
+                ) : null}
+                {status.pendingClicks > 0 ? (
+                  <span className={styles.waiting}>Waiting for your offer to be confirmed…</span>
+                ) : null}
+              </div>
+            ) : null}
+
+            <p className={styles.instructions}>Complete an offer below to unlock this content.</p>
+            {offers.length > 0 ? (
+              <ul className={styles.offerList}>
+                {offers.map((offer) => (
+                  <li key={`${offer.network}-${offer.id}`}>
+                    <div>
+                      <span className={styles.offerName}>{offer.name}</span>
+                      <span className={styles.offerType}>{offer.type ?? "Offer"}</span>
+                    </div>
+                    <a href={buildOfferHref(offer)} target="_blank" rel="noopener noreferrer">
+                      Start
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className={styles.instructions}>No offers are available for your device and location right now.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function UnlockedView({ content }: { content: UnlockedContent }) {
+  if (content.kind === "file") {
+    return (
+      <a className={styles.unlockButton} href={content.href}>
+        Download
+      </a>
+    );
+  }
+  if (content.kind === "url") {
+    return (
+      <a className={styles.unlockButton} href={content.content} target="_blank" rel="noopener noreferrer">
+        Open link
+      </a>
+    );
+  }
+  return <pre className={styles.unlockedText}>{content.content}</pre>;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { cache: "no-store" });
+  const payload = (await response.json()) as T | { error: string };
+  if (!response.ok) {
+    throw new Error(payload && typeof payload === "object" && "error" in payload ? payload.error : "Request failed.");
+  }
+  return payload as T;
+}
+
+async function fetchUnlockedContent(
+  lockerId: string,
+  kind: PublicLockedResource["kind"],
+  token: string
+): Promise<UnlockedContent> {
+  const href = "/api/lockers/" + encodeURIComponent(lockerId) + "/content?token=" + encodeURIComponent(token);
+  // Files are downloaded by the browser; the token stays valid until it expires.
+  if (kind === "file") {
+    return { kind: "file", href };
+  }
+  return fetchJson<{ kind: "url" | "text"; content: string }>(href);
+}
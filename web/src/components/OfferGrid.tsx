@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./OfferGrid.module.css";
+import type { OfferDisplay } from "@/types/experiments";
+import type { Offer } from "@/types/offers";
+
+const FALLBACK_IMAGE = "/offer-placeholder.svg";
+
+interface OfferGridProps {
+  offers: Offer[];
+  display?: OfferDisplay;
+  /** Link for the offer button; no button is shown while this returns null. */
+  buildHref: (offer: Offer) => string | null;
+  onOfferClick?: (offer: Offer) => void;
+}
+
+export default function OfferGrid({ offers, display, buildHref, onOfferClick }: OfferGridProps) {
+  return (
+    <div className={display?.layout === "list" ? styles.offerList : styles.offerGrid}>
+      {offers.map((offer) => {
+        const href = buildHref(offer);
+        return (
+          <article key={`${offer.network}-${offer.id}`} className={styles.offerCard}>
+            <OfferHero network={offer.network} offerId={offer.id} name={offer.shortName} />
+            <div className={styles.offerBody}>
+              {offer.boosted ? <span className={styles.boostedBadge}>Boosted</span> : null}
+              <h3>{offer.name}</h3>
+              {/* Descriptions and ad copy are sanitized against an allowlist when the feed is mapped. */}
+              <div
+                className={styles.offerDescription}
+                dangerouslySetInnerHTML={{
+                  __html: (display?.copy === "creativeText" && offer.creativeText) || offer.description,
+                }}
+              />
+              <dl className={styles.metaList}>
+                <div>
+                  <dt>Offer type</dt>
+                  <dd>{offer.type ?? "Unknown"}</dd>
+                </div>
+                <div>
+                  <dt>Payout</dt>
+                  <dd>{offer.payoutLabel ?? formatCurrency(offer.payout)}</dd>
+                </div>
+                <div>
+                  <dt>Devices</dt>
+                  <dd>{offer.devices.join(", ") || "All"}</dd>
+                </div>
+                <div>
+                  <dt>Target countries</dt>
+                  <dd>{offer.countryCodes.join(", ") || "Global"}</dd>
+                </div>
+                {offer.epc !== null ? (
+                  <div>
+                    <dt>EPC</dt>
+                    <dd>{offer.epc.toFixed(5)}</dd>
+                  </div>
+                ) : null}
+                {offer.cvr !== null ? (
+                  <div>
+                    <dt>Conversion rate</dt>
+                    <dd>{offer.cvr.toFixed(2)}%</dd>
+                  </div>
+                ) : null}
+              </dl>
+            </div>
+            <footer className={styles.offerFooter}>
+              {href ? (
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={styles.offerButton}
+                  onClick={() => onOfferClick?.(offer)}
+                >
+                  Get tracking link
+                </a>
+              ) : null}
+            </footer>
+          </article>
+        );
+      })}
+    </div>
+  );
+}
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+interface OfferHeroProps {
+  network: string;
+  offerId: number;
+  name: string;
+}
+
+// Pictures go through the image proxy so visitors never contact the offer's
+// CDN; the static placeholder only covers the proxy itself failing.
+function OfferHero({ network, offerId, name }: OfferHeroProps) {
+  const proxiedSrc = "/api/offer-image/" + offerId + "?w=640&network=" + encodeURIComponent(network);
+  const [src, setSrc] = useState<string>(proxiedSrc);
+
+  useEffect(() => {
+    setSrc(proxiedSrc);
+  }, [proxiedSrc]);
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      className={styles.offerImage}
+      src={src}
+      alt={name}
+      onError={() => {
+        setSrc(FALLBACK_IMAGE);
+      }}
+    />
+  );
+}
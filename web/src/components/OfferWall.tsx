@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import styles from "@/app/page.module.css";
+import LockerModal from "@/components/LockerModal";
+import OfferGrid from "@/components/OfferGrid";
+import { DeviceProfile, describeDevice, parseUserAgent } from "@/lib/device";
+import type { OfferLocation } from "@/lib/visitor-offers";
+import type { OfferDisplay } from "@/types/experiments";
+import type { LedgerEntry } from "@/types/ledger";
+import type { Offer } from "@/types/offers";
+
+type FetchState = "idle" | "loading" | "error";
+
+interface LocationInfo {
+  ip: string;
+  city: string;
+  region: string;
+  country: string;
+  countryCode: string;
+}
+
+interface OffersApiSuccess {
+  offers: Offer[];
+  location: OfferLocation | null;
+  display: OfferDisplay;
+}
+
+interface OffersApiError {
+  error: string;
+}
+
+interface EarningsSummary {
+  balance: number;
+  entries: LedgerEntry[];
+}
+
+const VISITOR_ID_KEY = "ogads_visitor_id";
+
+interface OfferWallProps {
+  /** Offers rendered on the server for the device its user agent suggests. */
+  initialOffers: Offer[];
+  initialLocation: OfferLocation | null;
+  initialDevice: DeviceProfile;
+  initialError: string | null;
+  /** How offer cards are shown; experiment variants can change it. */
+  display: OfferDisplay;
+  /** Visitor key cookie the server could not set while rendering. */
+  pendingCookie: { name: string; value: string; maxAgeSeconds: number } | null;
+}
+
+export default function OfferWall({
+  initialOffers,
+  initialLocation,
+  initialDevice,
+  initialError,
+  display: initialDisplay,
+  pendingCookie,
+}: OfferWallProps) {
+  const [offers, setOffers] = useState<Offer[]>(initialOffers);
+  const [location, setLocation] = useState<LocationInfo | null>(toLocationInfo(initialLocation));
+  const [status, setStatus] = useState<FetchState>(initialError ? "error" : "idle");
+  const [error, setError] = useState<string | null>(initialError);
+  const [deviceProfile, setDeviceProfile] = useState<DeviceProfile>(initialDevice);
+  const [visitorId, setVisitorId] = useState<string | null>(null);
+  const [earnings, setEarnings] = useState<EarningsSummary | null>(null);
+  const [lockerId, setLockerId] = useState<string | null>(null);
+  const [display, setDisplay] = useState<OfferDisplay>(initialDisplay);
+
+  useEffect(() => {
+    // Store the key before any request so `/api/offers` and `/api/track` see
+    // the same experiment variants the server rendered.
+    if (pendingCookie) {
+      document.cookie =
+        pendingCookie.name + "=" + pendingCookie.value + "; path=/; max-age=" + pendingCookie.maxAgeSeconds + "; samesite=lax";
+    }
+    setVisitorId(resolveVisitorId(pendingCookie?.value));
+    // Linking to the wall with `?locker=<id>` opens that content locker.
+    setLockerId(new URLSearchParams(window.location.search).get("locker"));
+
+    // The browser can see what the user agent hides (iPadOS desktop mode), so
+    // reload when its profile disagrees with the one the server rendered for.
+    const detectedDevice = detectDeviceProfile();
+    if (detectedDevice.formFactor !== initialDevice.formFactor || detectedDevice.os !== initialDevice.os) {
+      void hydrateOffers(detectedDevice);
+    }
+    // Only the first render's server profile matters here.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!visitorId) return;
+    fetchEarnings(visitorId)
+      .then(setEarnings)
+      .catch(() => setEarnings(null));
+  }, [visitorId]);
+
+  async function hydrateOffers(detectedDevice: DeviceProfile = detectDeviceProfile()) {
+    setStatus("loading");
+    setError(null);
+
+    try {
+      setDeviceProfile(detectedDevice);
+
+      const offersPayload = await fetchOffers(detectedDevice);
+      setLocation(toLocationInfo(offersPayload.location));
+      setOffers(offersPayload.offers);
+      setDisplay(offersPayload.display);
+      setStatus("idle");
+    } catch (err) {
+      setStatus("error");
+      if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError("Something went wrong while loading offers.");
+      }
+    }
+  }
+
+  const heading = useMemo(() => {
+    if (!location) {
+      return "OGAds Offers Near You";
+    }
+
+    const regionPart = location.region ? ", " + location.region : "";
+    return "Offers available in " + location.city + regionPart + ", " + location.country;
+  }, [location]);
+
+  const offerTypeLabel = useMemo(() => {
+    if (deviceProfile.formFactor === "desktop") {
+      return "desktop CPA offers";
+    }
+    if (deviceProfile.os === "android") {
+      return "Android CPI offers";
+    }
+    if (deviceProfile.os === "ios") {
+      return "iOS CPI offers";
+    }
+    return "mobile CPI offers";
+  }, [deviceProfile]);
+
+  const feedBadge = deviceProfile.formFactor === "desktop" ? "Desktop CPA" : "Mobile CPI";
+  const feedSourceLabel = "OGAds ctype=0 (server filtered)";
+  const hasOffers = offers.length > 0;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.backdrop} />
+      <main className={styles.container}>
+        <header className={styles.header}>
+          <div>
+            <p className={styles.kicker}>Serving {offerTypeLabel}</p>
+            <h1 className={styles.title}>{heading}</h1>
+            <p className={styles.subtitle}>
+              We automatically detect your approximate location and device so you only see offers that
+              match both your country and platform.
+            </p>
+          </div>
+          <div className={styles.headerMeta}>
+            {location ? (
+              <div className={styles.locationCard}>
+                <span className={styles.locationLabel}>Detected location</span>
+                <span className={styles.locationValue}>
+                  {location.city}, {location.region ? location.region + ", " : ""}
+                  {location.country}
+                </span>
+                <span className={styles.locationIp}>IP: {location.ip}</span>
+              </div>
+            ) : (
+              <div className={styles.locationFallback}>Detecting your location…</div>
+            )}
+            <div className={styles.locationCard}>
+              <span className={styles.locationLabel}>Detected device</span>
+              <span className={styles.locationValue}>
+                {describeDevice(deviceProfile)}
+              </span>
+              <span className={styles.deviceMeta}>
+                {feedBadge} • {feedSourceLabel}
+              </span>
+            </div>
+            <button
+              className={styles.refreshButton}
+              type="button"
+              onClick={() => {
+                void hydrateOffers();
+              }}
+              disabled={status === "loading"}
+            >
+              {status === "loading" ? "Refreshing…" : "Refresh"}
+            </button>
+          </div>
+        </header>
+
+        {earnings && earnings.entries.length > 0 ? (
+          <section className={styles.earningsCard}>
+            <div className={styles.earningsHeader}>
+              <h2>Your earnings</h2>
+              <span className={styles.earningsBalance}>{earnings.balance.toLocaleString("en-US")} points</span>
+            </div>
+            <ul className={styles.earningsList}>
+              {earnings.entries.map((entry) => (
+                <li key={entry.id}>
+                  <span>{entry.description}</span>
+                  <span className={entry.points < 0 ? styles.earningsNegative : styles.earningsPositive}>
+                    {entry.points > 0 ? "+" : ""}
+                    {entry.points.toLocaleString("en-US")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        {status === "error" ? (
+          <section className={styles.stateCard}>
+            <p className={styles.stateTitle}>We could not load offers right now.</p>
+            <p className={styles.stateDescription}>{error ?? "Please try again in a moment."}</p>
+          </section>
+        ) : null}
+
+        {status === "loading" && !hasOffers ? (
+          <section className={styles.stateCard}>
+            <p className={styles.stateTitle}>Fetching offers for you…</p>
+            <p className={styles.stateDescription}>
+              Hang tight while we contact OGAds and tailor the feed to your area.
+            </p>
+          </section>
+        ) : null}
+
+        {hasOffers ? (
+          <section className={styles.offersSection}>
+            <div className={styles.offersHeader}>
+              <h2>Top {offerTypeLabel}</h2>
+              <p>
+                Filtered via OGAds by IP and user agent. We request OGAds with ctype=0 once and filter the
+                response server-side so that only campaigns relevant to your current device remain.
+              </p>
+            </div>
+            <OfferGrid
+              offers={offers}
+              display={display}
+              buildHref={(offer) =>
+                visitorId ? buildTrackHref(offer, visitorId, deviceProfile) : null
+              }
+            />
+          </section>
+        ) : null}
+
+        {status === "idle" && !hasOffers ? (
+          <section className={styles.stateCard}>
+            <p className={styles.stateTitle}>No offers matched your location yet.</p>
+            <p className={styles.stateDescription}>
+              Double-check that your IP is eligible for OGAds CPI campaigns or try refreshing.
+            </p>
+          </section>
+        ) : null}
+      </main>
+
+      {lockerId && visitorId ? (
+        <LockerModal
+          lockerId={lockerId}
+          userId={visitorId}
+          offers={offers}
+          buildOfferHref={(offer) => buildTrackHref(offer, visitorId, deviceProfile, lockerId)}
+          onClose={() => setLockerId(null)}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+function toLocationInfo(location: OfferLocation | null): LocationInfo | null {
+  if (!location) return null;
+
+  return {
+    ip: location.ip,
+    city: location.city || "Unknown city",
+    region: location.region || "",
+    country: location.country || location.countryCode || "Unknown country",
+    countryCode: (location.countryCode || "").toUpperCase(),
+  };
+}
+
+// The API only honours `ip` when the server runs with ALLOW_CLIENT_IP_OVERRIDE,
+// which lets developers preview another region via `/?ip=…`.
+function devIpOverrideParams(): URLSearchParams {
+  const params = new URLSearchParams();
+  const ipOverride = new URLSearchParams(window.location.search).get("ip");
+  if (ipOverride) {
+    params.set("ip", ipOverride);
+  }
+  return params;
+}
+
+async function fetchOffers(device: DeviceProfile): Promise<OffersApiSuccess> {
+  const params = devIpOverrideParams();
+  // Send the client-side profile so the server sees what the user agent hides
+  // (iPadOS desktop mode looks like a Mac until touch support is checked).
+  params.set("formFactor", device.formFactor);
+  params.set("os", device.os);
+  const response = await fetch("/api/offers?" + params.toString());
+  const payload = (await response.json()) as OffersApiSuccess | OffersApiError;
+
+  if (!response.ok) {
+    throw new Error("OGAds request failed: " + ("error" in payload && payload.error ? payload.error : "Unexpected error"));
+  }
+
+  if (!("offers" in payload)) {
+    throw new Error("Malformed response from offers API.");
+  }
+
+  return payload;
+}
+
+async function fetchEarnings(userId: string): Promise<EarningsSummary> {
+  const response = await fetch("/api/users/" + encodeURIComponent(userId) + "/ledger?limit=5");
+  if (!response.ok) {
+    throw new Error("Unable to load earnings.");
+  }
+  return (await response.json()) as EarningsSummary;
+}
+
+function buildTrackHref(offer: Offer, userId: string, device: DeviceProfile, lockerId?: string) {
+  const params = devIpOverrideParams();
+  params.set("formFactor", device.formFactor);
+  params.set("os", device.os);
+  params.set("network", offer.network);
+  params.set("offerId", String(offer.id));
+  params.set("userId", userId);
+  // Traffic sources link to the wall with `?subid=` so clicks can be reported per source.
+  const subid = new URLSearchParams(window.location.search).get("subid");
+  if (subid) {
+    params.set("subid", subid);
+  }
+  if (lockerId) {
+    params.set("lockerId", lockerId);
+  }
+
+  return "/api/track?" + params.toString();
+}
+
+// New visitors reuse the experiment key so their user id and cookie match.
+function resolveVisitorId(seed?: string): string {
+  const existing = window.localStorage.getItem(VISITOR_ID_KEY);
+  if (existing) {
+    return existing;
+  }
+
+  const created = seed ?? crypto.randomUUID();
+  window.localStorage.setItem(VISITOR_ID_KEY, created);
+  return created;
+}
+
+function detectDeviceProfile(): DeviceProfile {
+  const userAgent = typeof navigator !== "undefined" ? navigator.userAgent : "";
+  const maxTouchPoints = typeof navigator !== "undefined" ? navigator.maxTouchPoints : 0;
+  return parseUserAgent(userAgent, { maxTouchPoints });
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // Retries must resume after a restart, not only when the next conversion arrives.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startWebhookWorker } = await import("@/lib/webhooks");
+    startWebhookWorker();
+  }
+}
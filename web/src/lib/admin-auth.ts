@@ -0,0 +1,36 @@
+// Also used by the middleware, so only web APIs are used here.
+const ADMIN_USERNAME = process.env.ADMIN_USERNAME ?? "admin";
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
+
+export function isAdminConfigured(): boolean {
+  return Boolean(ADMIN_PASSWORD);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  let mismatch = a.length ^ b.length;
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    mismatch |= (a.charCodeAt(index) || 0) ^ (b.charCodeAt(index) || 0);
+  }
+  return mismatch === 0;
+}
+
+/** Checks an `Authorization: Basic …` header against ADMIN_USERNAME/ADMIN_PASSWORD. */
+export function isAdminAuthorized(authorization: string | null): boolean {
+  if (!ADMIN_PASSWORD || !authorization?.startsWith("Basic ")) {
+    return false;
+  }
+
+  let decoded: string;
+  try {
+    decoded = atob(authorization.slice("Basic ".length).trim());
+  } catch {
+    return false;
+  }
+
+  const separator = decoded.indexOf(":");
+  if (separator === -1) return false;
+
+  const usernameMatches = safeEqual(decoded.slice(0, separator), ADMIN_USERNAME);
+  const passwordMatches = safeEqual(decoded.slice(separator + 1), ADMIN_PASSWORD);
+  return usernameMatches && passwordMatches;
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { POST as reviewConversion } from "@/app/api/admin/conversions/[id]/review/route";
+import { POST as replayDeadLetters } from "@/app/api/admin/webhooks/dead-letters/replay/route";
+import { withSameOriginJson } from "@/lib/admin-requests";
+
+const REVIEW_URL = "http://localhost:3000/api/admin/conversions/1-click/review";
+
+function post(headers: Record<string, string>, body = JSON.stringify({ decision: "approve" })) {
+  return new NextRequest(REVIEW_URL, { method: "POST", headers, body });
+}
+
+describe("withSameOriginJson", () => {
+  const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+  const guarded = withSameOriginJson(handler);
+
+  it.each([
+    ["a text/plain form", { "content-type": "text/plain", origin: "http://localhost:3000" }],
+    ["a urlencoded form", { "content-type": "application/x-www-form-urlencoded", origin: "http://localhost:3000" }],
+    ["JSON without Origin or Sec-Fetch-Site", { "content-type": "application/json" }],
+    ["JSON from another origin", { "content-type": "application/json", origin: "https://evil.example" }],
+    ["JSON from another site", { "content-type": "application/json", "sec-fetch-site": "cross-site" }],
+  ])("refuses %s", async (_name, headers) => {
+    handler.mockClear();
+    const response = await guarded(post(headers), undefined);
+    expect(response.status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["a same-origin Origin", { "content-type": "application/json; charset=utf-8", origin: "http://localhost:3000" }],
+    ["Sec-Fetch-Site: same-origin", { "content-type": "application/json", "sec-fetch-site": "same-origin" }],
+  ])("passes JSON with %s", async (_name, headers) => {
+    const response = await guarded(post(headers), undefined);
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("POST /api/admin/conversions/:id/review", () => {
+  it("refuses a cross-site form before looking at the conversion", async () => {
+    const response = await reviewConversion(
+      post({ "content-type": "text/plain", origin: "https://evil.example" }, '{"decision":"approve"}'),
+      { params: Promise.resolve({ id: "1-click" }) }
+    );
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("POST /api/admin/webhooks/dead-letters/replay", () => {
+  const sameOrigin = { "content-type": "application/json", origin: "http://localhost:3000" };
+
+  function replay(headers: Record<string, string>, body: string) {
+    return replayDeadLetters(
+      new NextRequest("http://localhost:3000/api/admin/webhooks/dead-letters/replay", { method: "POST", headers, body }),
+      undefined
+    );
+  }
+
+  it("refuses a blind cross-site POST", async () => {
+    expect((await replay({ "content-type": "text/plain", origin: "https://evil.example" }, "")).status).toBe(403);
+  });
+
+  it.each([
+    ["an empty body", ""],
+    ["a malformed body", "{ids:"],
+    ["an object without ids or all", "{}"],
+    ["all that is not true", '{"all":"yes"}'],
+    ["ids that are not strings", '{"ids":[1,2]}'],
+  ])("rejects %s instead of replaying everything", async (_name, body) => {
+    expect((await replay(sameOrigin, body)).status).toBe(400);
+  });
+
+  it("replays everything only when asked to", async () => {
+    const response = await replay(sameOrigin, '{"all":true}');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ replayed: 0, ids: [] });
+  });
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+
+function isJsonRequest(request: NextRequest) {
+  const contentType = request.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  return contentType === "application/json";
+}
+
+function isSameOriginRequest(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  if (origin) return origin === request.nextUrl.origin;
+  return request.headers.get("sec-fetch-site") === "same-origin";
+}
+
+/**
+ * Guards admin routes that change state. Browsers resend cached Basic auth
+ * on cross-site requests, and forms or no-cors fetches cannot send JSON with
+ * a same-origin `Origin`, so anything else is refused with `403`.
+ */
+export function withSameOriginJson<C>(handler: (request: NextRequest, context: C) => Promise<Response>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    if (!isJsonRequest(request)) {
+      return NextResponse.json({ error: "Content-Type must be application/json" }, { status: 403 });
+    }
+    if (!isSameOriginRequest(request)) {
+      return NextResponse.json({ error: "Cross-origin requests are not allowed" }, { status: 403 });
+    }
+    return handler(request, context);
+  };
+}
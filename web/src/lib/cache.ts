@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  /** Served as a plain hit until this time. */
+  freshUntil: number;
+  /** Served stale (while revalidating) until this time, then dropped. */
+  staleUntil: number;
+}
+
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | null>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export interface CachedValue<T> {
+  value: T;
+  status: CacheStatus;
+  ageMs: number;
+}
+
+export interface SwrCacheOptions<T> {
+  store: CacheStore<T>;
+  ttlMs: number;
+  staleMs: number;
+}
+
+export function createMemoryCacheStore<T>(maxEntries: number): CacheStore<T> {
+  // Map iteration follows insertion order, so re-inserting on access keeps the
+  // least recently used key first.
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.staleUntil <= Date.now()) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createFileCacheStore<T>(directory: string): CacheStore<T> {
+  const fileFor = (key: string) =>
+    path.join(directory, createHash("sha1").update(key).digest("hex") + ".json");
+
+  return {
+    async get(key) {
+      const file = fileFor(key);
+      let entry: CacheEntry<T>;
+      try {
+        entry = JSON.parse(await fs.readFile(file, "utf8")) as CacheEntry<T>;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.warn(`Discarding unreadable cache file ${file}`, error);
+          await fs.rm(file, { force: true });
+        }
+        return null;
+      }
+
+      if (entry.staleUntil <= Date.now()) {
+        await fs.rm(file, { force: true });
+        return null;
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(key);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(entry), "utf8");
+      await fs.rename(tempFile, file);
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Stale-while-revalidate cache with single-flight loading: concurrent callers
+ * for the same key share one upstream request, and stale entries are served
+ * immediately while a background refresh runs.
+ */
+export function createSwrCache<T>({ store, ttlMs, staleMs }: SwrCacheOptions<T>) {
+  const inflight = new Map<string, Promise<T>>();
+
+  function load(key: string, loader: () => Promise<T>): Promise<T> {
+    const pending = inflight.get(key);
+    if (pending) return pending;
+
+    const request = loader()
+      .then(async (value) => {
+        const now = Date.now();
+        await store.set(key, {
+          value,
+          storedAt: now,
+          freshUntil: now + ttlMs,
+          staleUntil: now + ttlMs + staleMs,
+        });
+        return value;
+      })
+      .finally(() => {
+        inflight.delete(key);
+      });
+    inflight.set(key, request);
+    return request;
+  }
+
+  return {
+    async get(key: string, loader: () => Promise<T>): Promise<CachedValue<T>> {
+      const now = Date.now();
+      const entry = await store.get(key);
+
+      if (entry && entry.freshUntil > now) {
+        return { value: entry.value, status: "HIT", ageMs: now - entry.storedAt };
+      }
+
+      if (entry && entry.staleUntil > now) {
+        load(key, loader).catch((error) => {
+          console.error(`Background revalidation failed for cache key ${key}`, error);
+        });
+        return { value: entry.value, status: "STALE", ageMs: now - entry.storedAt };
+      }
+
+      const value = await load(key, loader);
+      return { value, status: "MISS", ageMs: 0 };
+    },
+    invalidate(key: string) {
+      return store.delete(key);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { randomUUID } from "crypto";
+import type { ClickRecord } from "@/types/tracking";
+import { appendRecord, readCollection, updateCollection } from "@/lib/store";
+
+const CLICKS_COLLECTION = "clicks";
+
+type NewClick = Omit<ClickRecord, "id" | "orphaned" | "createdAt">;
+
+export async function recordClick(click: NewClick): Promise<ClickRecord> {
+  const record: ClickRecord = {
+    id: randomUUID(),
+    ...click,
+    orphaned: false,
+    createdAt: new Date().toISOString(),
+  };
+  return appendRecord(CLICKS_COLLECTION, record);
+}
+
+export async function listClicks(): Promise<ClickRecord[]> {
+  return readCollection<ClickRecord>(CLICKS_COLLECTION);
+}
+
+export async function findClick(clickId: string): Promise<ClickRecord | null> {
+  const clicks = await readCollection<ClickRecord>(CLICKS_COLLECTION);
+  return clicks.find((click) => click.id === clickId) ?? null;
+}
+
+export function findOrCreateOrphanedClick(
+  clickId: string,
+  fallback: Pick<ClickRecord, "userId" | "network" | "offerId" | "ip" | "createdAt">
+): Promise<ClickRecord> {
+  return updateCollection<ClickRecord, ClickRecord>(CLICKS_COLLECTION, (clicks) => {
+    const existing = clicks.find((click) => click.id === clickId);
+    if (existing) {
+      return { result: existing };
+    }
+
+    const orphan: ClickRecord = {
+      id: clickId,
+      ...fallback,
+      offerName: null,
+      reportedEpc: null,
+      subid: null,
+      lockerId: null,
+      experiments: [],
+      country: null,
+      formFactor: null,
+      os: null,
+      userAgent: null,
+      fraud: null,
+      orphaned: true,
+    };
+    return { records: [...clicks, orphan], result: orphan };
+  });
+}
+
@@ -0,0 +1,77 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Offer } from "@/types/offers";
+
+function offer(network: string, id: number): Offer {
+  return {
+    id,
+    network,
+    name: `${network} ${id}`,
+    shortName: `${network} ${id}`,
+    description: "",
+    creativeText: "",
+    imageUrl: `https://cdn.example/${network}/${id}.png`,
+    payout: 1,
+    countryCodes: ["US"],
+    devices: ["Desktop"],
+    trackingUrl: `https://track.example/${network}/${id}`,
+    epc: null,
+    cvr: null,
+    boosted: false,
+    type: "CPI",
+    payoutLabel: null,
+  };
+}
+
+let configCount = 0;
+
+async function loadCuration(config: unknown) {
+  configCount += 1;
+  const file = path.join(process.env.DATA_DIR ?? "", `curation-${configCount}.json`);
+  await fs.writeFile(file, JSON.stringify(config));
+  vi.resetModules();
+  vi.stubEnv("CURATION_CONFIG_PATH", file);
+  const curation = await import("@/lib/curation");
+  return { ...curation, config: await curation.getCurationConfig() };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("curation", () => {
+  const feed = [offer("ogads", 100), offer("cpagrip", 100), offer("cpagrip", 200)];
+
+  it("reads bare ids as OGAds offers", async () => {
+    const { curateOffers, config } = await loadCuration({
+      rules: [{ id: "hide", action: "block", match: { offerIds: [100] } }],
+      overrides: { "100": { name: "Renamed" } },
+    });
+
+    const result = curateOffers(feed, config, "US");
+    expect(result.offers.map((entry) => `${entry.network}:${entry.id}`)).toEqual(["cpagrip:100", "cpagrip:200"]);
+    expect(result.offers[0].name).toBe("cpagrip 100");
+    expect(result.reports).toEqual([{ offerId: 100, network: "ogads", blocked: true, matched: ["hide"] }]);
+  });
+
+  it("matches rules, overrides and pins by network and id", async () => {
+    const { curateOffers, applyPins, config } = await loadCuration({
+      rules: [{ id: "hide", action: "block", match: { offerIds: ["cpagrip:100"] } }],
+      pins: [{ offerId: "cpagrip:200", position: 1 }],
+      overrides: { "cpagrip:200": { name: "Renamed" }, "ogads:100": { payoutLabel: "Up to $1" } },
+    });
+
+    const result = curateOffers(feed, config, "US");
+    const pinned = applyPins(result.offers, config, "US", result.reports);
+    expect(pinned.map((entry) => [entry.network, entry.id, entry.name, entry.payoutLabel])).toEqual([
+      ["cpagrip", 200, "Renamed", null],
+      ["ogads", 100, "ogads 100", "Up to $1"],
+    ]);
+    expect(result.reports).toEqual([
+      { offerId: 100, network: "ogads", blocked: false, matched: ["override"] },
+      { offerId: 100, network: "cpagrip", blocked: true, matched: ["hide"] },
+      { offerId: 200, network: "cpagrip", blocked: false, matched: ["override", "pin:1"] },
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Offer } from "@/types/offers";
+import { offerKey, parseOfferKey } from "@/lib/offer-providers";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+
+const CURATION_CONFIG_PATH = process.env.CURATION_CONFIG_PATH ?? path.join(process.cwd(), "curation.json");
+const RELOAD_CHECK_INTERVAL_MS = 2000;
+
+export interface CurationMatch {
+  /** `<network>:<id>` keys; the file may also list bare OGAds ids. */
+  offerIds?: string[];
+  /** Visitor countries (ISO codes) the rule applies to. */
+  countries?: string[];
+  /** Offer types such as CPI or CPA. */
+  types?: string[];
+}
+
+export interface CurationRule {
+  id: string;
+  action: "block" | "allow";
+  match: CurationMatch;
+}
+
+export interface CurationPin {
+  /** `<network>:<id>` key, read from the file's `offerId`. */
+  offerKey: string;
+  /** 1-based position in the ranked list. */
+  position: number;
+  countries?: string[];
+}
+
+export interface CurationOverride {
+  name?: string;
+  shortName?: string;
+  description?: string;
+  imageUrl?: string;
+  payoutLabel?: string;
+}
+
+export interface CurationConfig {
+  rules: CurationRule[];
+  pins: CurationPin[];
+  /** Keyed by `<network>:<id>`; the file may also use bare OGAds ids. */
+  overrides: Record<string, CurationOverride>;
+}
+
+export interface CurationReport {
+  offerId: number;
+  network: string;
+  blocked: boolean;
+  /** Rule ids, `override`, or `pin:<position>` entries that applied. */
+  matched: string[];
+}
+
+export interface CurationResult {
+  offers: Offer[];
+  reports: CurationReport[];
+}
+
+const EMPTY_CONFIG: CurationConfig = { rules: [], pins: [], overrides: {} };
+
+let loadedConfig: CurationConfig = EMPTY_CONFIG;
+let loadedMtimeMs: number | null = null;
+let lastCheckAt = 0;
+
+function normalizeType(value: string) {
+  return value.replace(/[^A-Z]/gi, "").toUpperCase();
+}
+
+interface RawCurationPin {
+  offerId?: unknown;
+  position?: number;
+  countries?: string[];
+}
+
+function parseConfig(raw: unknown): CurationConfig {
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error("curation config must be a JSON object");
+  }
+
+  const source = raw as Partial<Omit<CurationConfig, "pins">> & { pins?: RawCurationPin[] };
+  const rules = Array.isArray(source.rules) ? source.rules : [];
+  const pins = Array.isArray(source.pins) ? source.pins : [];
+
+  return {
+    rules: rules
+      .filter((rule) => rule && (rule.action === "block" || rule.action === "allow") && typeof rule.match === "object")
+      .map((rule, index) => ({
+        id: typeof rule.id === "string" && rule.id ? rule.id : `${rule.action}-${index + 1}`,
+        action: rule.action,
+        match: {
+          offerIds: rule.match.offerIds
+            ?.map(parseOfferKey)
+            .filter((key): key is string => key !== null),
+          countries: rule.match.countries?.map((country) => String(country).toUpperCase()),
+          types: rule.match.types?.map((type) => normalizeType(String(type))),
+        },
+      })),
+    pins: pins.flatMap((pin) => {
+      const key = pin ? parseOfferKey(pin.offerId) : null;
+      const position = pin?.position;
+      if (!key || position === undefined || !Number.isInteger(position) || position < 1) return [];
+      return [{
+        offerKey: key,
+        position,
+        countries: pin.countries?.map((country) => String(country).toUpperCase()),
+      }];
+    }),
+    overrides: typeof source.overrides === "object" && source.overrides !== null
+      ? Object.fromEntries(
+        Object.entries(source.overrides).flatMap(([offerId, override]) => {
+          const key = parseOfferKey(offerId);
+          if (!key) return [];
+          return [[
+            key,
+            override.description === undefined
+              ? override
+              : { ...override, description: sanitizeHtml(String(override.description)) },
+          ]];
+        })
+      )
+      : {},
+  };
+}
+
+/**
+ * Returns the current curation config, re-reading the file when its mtime
+ * changes. A broken edit keeps the previous config in effect.
+ */
+export async function getCurationConfig(): Promise<CurationConfig> {
+  const now = Date.now();
+  if (now - lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+    return loadedConfig;
+  }
+  lastCheckAt = now;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(CURATION_CONFIG_PATH)).mtimeMs;
+  } catch {
+    loadedConfig = EMPTY_CONFIG;
+    loadedMtimeMs = null;
+    return loadedConfig;
+  }
+
+  if (mtimeMs === loadedMtimeMs) {
+    return loadedConfig;
+  }
+
+  try {
+    loadedConfig = parseConfig(JSON.parse(await fs.readFile(CURATION_CONFIG_PATH, "utf8")));
+    loadedMtimeMs = mtimeMs;
+    console.log(`Loaded curation config from ${CURATION_CONFIG_PATH}`);
+  } catch (error) {
+    console.error(`Ignoring invalid curation config ${CURATION_CONFIG_PATH}`, error);
+  }
+  return loadedConfig;
+}
+
+function ruleMatches(match: CurationMatch, offer: Offer, country: string | null): boolean {
+  if (match.offerIds && match.offerIds.length > 0 && !match.offerIds.includes(offerKey(offer.network, offer.id))) {
+    return false;
+  }
+  if (match.countries && match.countries.length > 0 && (!country || !match.countries.includes(country))) {
+    return false;
+  }
+  if (match.types && match.types.length > 0) {
+    const offerType = offer.type ? normalizeType(offer.type) : "";
+    if (!match.types.some((type) => offerType.includes(type))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Applies block/allow rules and per-offer overrides. Runs on the mapped feed
+ * before ranking; when any allow rule exists only offers matching one remain.
+ */
+export function curateOffers(offers: Offer[], config: CurationConfig, country: string | null): CurationResult {
+  const allowRules = config.rules.filter((rule) => rule.action === "allow");
+  const blockRules = config.rules.filter((rule) => rule.action === "block");
+  const reports: CurationReport[] = [];
+  const curated: Offer[] = [];
+
+  for (const offer of offers) {
+    const matched: string[] = [];
+    const allowedBy = allowRules.filter((rule) => ruleMatches(rule.match, offer, country));
+    const blockedBy = blockRules.filter((rule) => ruleMatches(rule.match, offer, country));
+    matched.push(...allowedBy.map((rule) => rule.id), ...blockedBy.map((rule) => rule.id));
+
+    const blocked = blockedBy.length > 0 || (allowRules.length > 0 && allowedBy.length === 0);
+    if (blocked) {
+      reports.push({ offerId: offer.id, network: offer.network, blocked, matched });
+      continue;
+    }
+
+    const override = config.overrides[offerKey(offer.network, offer.id)];
+    if (override) {
+      matched.push("override");
+      curated.push({
+        ...offer,
+        name: override.name ?? offer.name,
+        shortName: override.shortName ?? override.name ?? offer.shortName,
+        description: override.description ?? offer.description,
+        imageUrl: override.imageUrl ?? offer.imageUrl,
+        payoutLabel: override.payoutLabel ?? offer.payoutLabel,
+      });
+    } else {
+      curated.push(offer);
+    }
+
+    if (matched.length > 0) {
+      reports.push({ offerId: offer.id, network: offer.network, blocked, matched });
+    }
+  }
+
+  return { offers: curated, reports };
+}
+
+/** Moves pinned offers to their configured positions after ranking. */
+export function applyPins(
+  offers: Offer[],
+  config: CurationConfig,
+  country: string | null,
+  reports: CurationReport[] = []
+): Offer[] {
+  const pins = config.pins
+    .filter((pin) => !pin.countries || pin.countries.length === 0 || (country !== null && pin.countries.includes(country)))
+    .sort((a, b) => a.position - b.position);
+  if (pins.length === 0) return offers;
+
+  const result = [...offers];
+  for (const pin of pins) {
+    const index = result.findIndex((offer) => offerKey(offer.network, offer.id) === pin.offerKey);
+    if (index === -1) continue;
+
+    const [offer] = result.splice(index, 1);
+    result.splice(Math.min(pin.position - 1, result.length), 0, offer);
+
+    const report = reports.find((entry) => entry.offerId === offer.id && entry.network === offer.network);
+    if (report) {
+      report.matched.push(`pin:${pin.position}`);
+    } else {
+      reports.push({ offerId: offer.id, network: offer.network, blocked: false, matched: [`pin:${pin.position}`] });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { DeviceHints, DeviceProfile, parseUserAgent } from "@/lib/device";
+
+interface UserAgentCase {
+  name: string;
+  userAgent: string;
+  hints?: DeviceHints;
+  expected: Partial<DeviceProfile>;
+}
+
+const CASES: UserAgentCase[] = [
+  {
+    name: "iPhone Safari",
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+    expected: { formFactor: "mobile", os: "ios", osVersion: "17.4", browser: "safari", browserVersion: "17.4", isBot: false },
+  },
+  {
+    name: "iPad Safari",
+    userAgent:
+      "Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1",
+    expected: { formFactor: "tablet", os: "ios", osVersion: "16.6", browser: "safari" },
+  },
+  {
+    name: "iPadOS desktop mode with touch points",
+    userAgent:
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15",
+    hints: { maxTouchPoints: 5 },
+    expected: { formFactor: "tablet", os: "ios", osVersion: null, browser: "safari", isBot: false },
+  },
+  {
+    name: "Mac Safari without touch points",
+    userAgent:
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15",
+    hints: { maxTouchPoints: 0 },
+    expected: { formFactor: "desktop", os: "macos", osVersion: "10.15.7", browser: "safari" },
+  },
+  {
+    name: "Android Chrome phone",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.82 Mobile Safari/537.36",
+    expected: { formFactor: "mobile", os: "android", osVersion: "14", browser: "chrome", isBot: false },
+  },
+  {
+    name: "Android tablet",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    expected: { formFactor: "tablet", os: "android" },
+  },
+  {
+    name: "Samsung Internet",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 13; SM-S911B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/23.0 Chrome/115.0.0.0 Mobile Safari/537.36",
+    expected: { formFactor: "mobile", browser: "samsung", browserVersion: "23" },
+  },
+  {
+    name: "CUBOT X30 Android Chrome is not a bot",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 10; CUBOT X30) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36",
+    expected: { formFactor: "mobile", os: "android", browser: "chrome", isBot: false },
+  },
+  {
+    name: "CUBOT KingKong build string is not a bot",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 11; CUBOT_KINGKONG_7 Build/RP1A.200720.011) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/118.0.0.0 Mobile Safari/537.36",
+    expected: { isBot: false },
+  },
+  {
+    name: "Facebook in-app browser on iOS",
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 [FBAN/FBIOS;FBAV/441.0.0.33.113;FBBV/545000000]",
+    expected: { os: "ios", browser: "safari", browserVersion: null, inAppBrowser: "facebook", isBot: false },
+  },
+  {
+    name: "Instagram in-app browser on Android",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 13; SM-G991B Build/TP1A.220624.014; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/119.0.6045.163 Mobile Safari/537.36 Instagram 309.1.0.41.113 Android",
+    expected: { os: "android", inAppBrowser: "instagram", isBot: false },
+  },
+  {
+    name: "TikTok in-app browser",
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 musical_ly_31.5.0 JsSdk/2.0 NetType/WIFI Channel/App Store ByteLocale/en Region/US",
+    expected: { os: "ios", inAppBrowser: "tiktok" },
+  },
+  {
+    name: "Kindle Fire Silk",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 9; KFTRWI) AppleWebKit/537.36 (KHTML, like Gecko) Silk/109.3.1 like Chrome/109.0.5414.119 Safari/537.36",
+    expected: { formFactor: "tablet", os: "android", isBot: false },
+  },
+  {
+    name: "Kindle Silk in desktop mode",
+    userAgent:
+      "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Silk/109.3.1 like Chrome/109.0.5414.119 Safari/537.36",
+    expected: { formFactor: "tablet", os: "linux" },
+  },
+  {
+    name: "ChromeOS",
+    userAgent:
+      "Mozilla/5.0 (X11; CrOS x86_64 15633.69.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.6045.212 Safari/537.36",
+    expected: { formFactor: "desktop", os: "chromeos", osVersion: "15633.69", browser: "chrome" },
+  },
+  {
+    name: "Windows Edge",
+    userAgent:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51",
+    expected: { formFactor: "desktop", os: "windows", osVersion: "10", browser: "edge", isBot: false },
+  },
+  {
+    name: "Firefox on Linux",
+    userAgent: "Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0",
+    expected: { formFactor: "desktop", os: "linux", browser: "firefox", browserVersion: "125" },
+  },
+  {
+    name: "Googlebot",
+    userAgent: "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+    expected: { isBot: true },
+  },
+  {
+    name: "Googlebot smartphone",
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.82 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+    expected: { isBot: true },
+  },
+  { name: "bingbot", userAgent: "Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)", expected: { isBot: true } },
+  { name: "AdsBot-Google", userAgent: "AdsBot-Google (+http://www.google.com/adsbot.html)", expected: { isBot: true } },
+  { name: "Telegram link preview", userAgent: "TelegramBot (like TwitterBot)", expected: { isBot: true } },
+  { name: "Slack link preview", userAgent: "Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)", expected: { isBot: true } },
+  {
+    name: "Facebook crawler",
+    userAgent: "facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)",
+    expected: { isBot: true },
+  },
+  {
+    name: "Headless Chrome",
+    userAgent:
+      "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.0.0 Safari/537.36",
+    expected: { isBot: true },
+  },
+  { name: "curl", userAgent: "curl/8.5.0", expected: { isBot: true } },
+  { name: "empty user agent", userAgent: "", expected: { isBot: true, os: "other", browser: "other" } },
+];
+
+describe("parseUserAgent", () => {
+  it.each(CASES)("$name", ({ userAgent, hints, expected }) => {
+    expect(parseUserAgent(userAgent, hints)).toMatchObject(expected);
+  });
+});
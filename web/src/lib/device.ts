@@ -0,0 +1,187 @@
+// Shared between the API routes and the client bundle: keep this module free
+// of Node-only imports.
+
+export type FormFactor = "mobile" | "tablet" | "desktop";
+export type OperatingSystem = "android" | "ios" | "windows" | "macos" | "linux" | "chromeos" | "other";
+export type Browser = "chrome" | "safari" | "firefox" | "edge" | "opera" | "samsung" | "other";
+export type InAppBrowser =
+  | "facebook"
+  | "instagram"
+  | "tiktok"
+  | "snapchat"
+  | "twitter"
+  | "linkedin"
+  | "line"
+  | "wechat";
+
+export interface DeviceProfile {
+  formFactor: FormFactor;
+  os: OperatingSystem;
+  /** Dotted version string, e.g. "17.4" or "14". */
+  osVersion: string | null;
+  browser: Browser;
+  browserVersion: string | null;
+  inAppBrowser: InAppBrowser | null;
+  isBot: boolean;
+}
+
+export interface DeviceHints {
+  /**
+   * `navigator.maxTouchPoints`. iPadOS requests desktop sites with a Mac user
+   * agent, so touch support is the only way to tell an iPad from a Mac.
+   */
+  maxTouchPoints?: number;
+}
+
+// A whole "...bot" token such as "Googlebot/2.1", "AdsBot-Google" or
+// "(like TwitterBot)". Device names that merely contain "bot" (the CUBOT
+// phones) are followed by a space or underscore and do not match.
+const BOT_TOKEN_PATTERN = /(?:^|[\s;(,])[\w.-]*bot(?:[/;),-]|$)/i;
+const KNOWN_CRAWLER_PATTERN =
+  /crawler|spider|crawling|slurp|mediapartners|headlesschrome|lighthouse|facebookexternalhit|embedly|preview|slackbot|telegrambot|ia_archiver|feedfetcher|semrush|ahrefs|curl\/|wget\/|python-requests|okhttp\/|go-http-client|axios\/|node-fetch/i;
+
+const IN_APP_PATTERNS: [InAppBrowser, RegExp][] = [
+  ["facebook", /FBAN|FBAV|FB_IAB|FBIOS/],
+  ["instagram", /Instagram/],
+  ["tiktok", /musical_ly|BytedanceWebview|TikTok|trill_/i],
+  ["snapchat", /Snapchat/i],
+  ["twitter", /Twitter(?:Android)?\b/],
+  ["linkedin", /LinkedInApp/],
+  ["line", /\bLine\//],
+  ["wechat", /MicroMessenger/],
+];
+
+function normalizeVersion(raw: string | undefined): string | null {
+  if (!raw) return null;
+  const version = raw.replace(/_/g, ".").replace(/(\.0)+$/, "");
+  return version || null;
+}
+
+function detectOs(userAgent: string): { os: OperatingSystem; osVersion: string | null } {
+  let match = userAgent.match(/Android[ /]?([\d.]+)?/i);
+  if (match) return { os: "android", osVersion: normalizeVersion(match[1]) };
+
+  match = userAgent.match(/(?:iPhone|iPad|iPod)(?:.*?OS ([\d_]+))?/);
+  if (match) return { os: "ios", osVersion: normalizeVersion(match[1]) };
+
+  match = userAgent.match(/CrOS \S+ ([\d.]+)/);
+  if (match) return { os: "chromeos", osVersion: normalizeVersion(match[1]) };
+
+  match = userAgent.match(/Windows NT ([\d.]+)/);
+  if (match) return { os: "windows", osVersion: normalizeVersion(match[1]) };
+  if (/Windows/.test(userAgent)) return { os: "windows", osVersion: null };
+
+  match = userAgent.match(/Mac OS X ([\d_.]+)/);
+  if (match) return { os: "macos", osVersion: normalizeVersion(match[1]) };
+  if (/Macintosh/.test(userAgent)) return { os: "macos", osVersion: null };
+
+  if (/Linux|X11/.test(userAgent)) return { os: "linux", osVersion: null };
+
+  return { os: "other", osVersion: null };
+}
+
+function detectBrowser(userAgent: string): { browser: Browser; browserVersion: string | null } {
+  const patterns: [Browser, RegExp][] = [
+    ["edge", /Edg(?:e|A|iOS)?\/([\d.]+)/],
+    ["opera", /(?:OPR|Opera|OPT)\/([\d.]+)/],
+    ["samsung", /SamsungBrowser\/([\d.]+)/],
+    ["firefox", /(?:Firefox|FxiOS)\/([\d.]+)/],
+    ["chrome", /(?:Chrome|CriOS)\/([\d.]+)/],
+    ["safari", /Version\/([\d.]+).*Safari\//],
+  ];
+
+  for (const [browser, pattern] of patterns) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      return { browser, browserVersion: normalizeVersion(match[1]) };
+    }
+  }
+
+  // iOS webviews omit "Version/" but still run WebKit.
+  if (/AppleWebKit/.test(userAgent) && /iPhone|iPad|iPod|Macintosh/.test(userAgent)) {
+    return { browser: "safari", browserVersion: null };
+  }
+
+  return { browser: "other", browserVersion: null };
+}
+
+function detectFormFactor(userAgent: string, os: OperatingSystem): FormFactor {
+  if (/iPad/.test(userAgent)) return "tablet";
+  if (/iPhone|iPod/.test(userAgent)) return "mobile";
+
+  if (os === "android") {
+    // Android phones include "Mobile"; tablets generally do not.
+    return /Mobile/.test(userAgent) ? "mobile" : "tablet";
+  }
+
+  if (/Tablet|PlayBook|Silk\//i.test(userAgent)) return "tablet";
+  if (/Mobi|Opera Mini|IEMobile|Windows Phone/i.test(userAgent)) return "mobile";
+
+  return "desktop";
+}
+
+export function parseUserAgent(userAgent: string, hints: DeviceHints = {}): DeviceProfile {
+  let { os, osVersion } = detectOs(userAgent);
+  const { browser, browserVersion } = detectBrowser(userAgent);
+  let formFactor = detectFormFactor(userAgent, os);
+
+  // iPadOS 13+ "desktop mode" Safari reports itself as a Mac.
+  if (os === "macos" && (hints.maxTouchPoints ?? 0) > 1) {
+    os = "ios";
+    formFactor = "tablet";
+    osVersion = null;
+  }
+
+  const inAppBrowser = IN_APP_PATTERNS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? null;
+
+  return {
+    formFactor,
+    os,
+    osVersion,
+    browser,
+    browserVersion,
+    inAppBrowser,
+    isBot: userAgent.trim() === "" || BOT_TOKEN_PATTERN.test(userAgent) || KNOWN_CRAWLER_PATTERN.test(userAgent),
+  };
+}
+
+export function parseFormFactor(value: string | null): FormFactor | undefined {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  if (normalized === "mobile" || normalized === "tablet" || normalized === "desktop") {
+    return normalized;
+  }
+  return undefined;
+}
+
+export function parseOperatingSystem(value: string | null): OperatingSystem | undefined {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  if (normalized === "android") return "android";
+  if (normalized === "ios" || normalized === "iphone" || normalized === "ipad") return "ios";
+  if (normalized === "windows") return "windows";
+  if (normalized === "macos" || normalized === "mac") return "macos";
+  if (normalized === "linux") return "linux";
+  if (normalized === "chromeos") return "chromeos";
+  return undefined;
+}
+
+export function describeDevice(profile: DeviceProfile): string {
+  const osLabels: Record<OperatingSystem, string> = {
+    android: "Android",
+    ios: "iOS",
+    windows: "Windows",
+    macos: "macOS",
+    linux: "Linux",
+    chromeos: "ChromeOS",
+    other: "",
+  };
+  const osLabel = osLabels[profile.os];
+
+  if (profile.formFactor === "desktop") {
+    return osLabel ? `${osLabel} desktop browser` : "Desktop browser";
+  }
+
+  const kind = profile.formFactor === "tablet" ? "tablet" : "device";
+  return osLabel ? `${osLabel} ${kind}` : `Mobile ${kind}`;
+}
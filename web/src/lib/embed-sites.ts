@@ -0,0 +1,169 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+
+const EMBED_SITES_PATH = process.env.EMBED_SITES_PATH ?? path.join(process.cwd(), "embed-sites.json");
+const RELOAD_CHECK_INTERVAL_MS = 2000;
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+export type EmbedThemeMode = "light" | "dark";
+
+export interface EmbedTheme {
+  mode: EmbedThemeMode;
+  /** CSS hex colour for buttons and highlights. */
+  accent: string;
+}
+
+export interface EmbedSite {
+  /** Public key partners put in the embed snippet. */
+  key: string;
+  name: string;
+  /** Origins (scheme://host[:port]) allowed to frame the wall and call the API. */
+  allowedOrigins: string[];
+  theme: EmbedTheme;
+}
+
+export const DEFAULT_EMBED_THEME: EmbedTheme = { mode: "light", accent: "#182d81" };
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+let loadedSites = new Map<string, EmbedSite>();
+let loadedMtimeMs: number | null = null;
+let lastCheckAt = 0;
+
+function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Applies `theme`/`accent` overrides, ignoring values that are not valid. */
+export function resolveEmbedTheme(
+  base: EmbedTheme,
+  overrides: { mode?: string | null; accent?: string | null }
+): EmbedTheme {
+  return {
+    mode: overrides.mode === "dark" || overrides.mode === "light" ? overrides.mode : base.mode,
+    accent: overrides.accent && HEX_COLOR_PATTERN.test(overrides.accent) ? overrides.accent : base.accent,
+  };
+}
+
+function parseSites(raw: unknown): Map<string, EmbedSite> {
+  const source = (raw as { sites?: unknown })?.sites;
+  if (!Array.isArray(source)) {
+    throw new Error("embed sites config must be a JSON object with a sites array");
+  }
+
+  const sites = new Map<string, EmbedSite>();
+  for (const entry of source as Partial<EmbedSite>[]) {
+    if (!entry || typeof entry.key !== "string" || !/^[\w-]{4,64}$/.test(entry.key)) {
+      console.warn("Skipping embed site without a valid key (4-64 letters, digits, _ or -)", entry);
+      continue;
+    }
+    sites.set(entry.key, {
+      key: entry.key,
+      name: typeof entry.name === "string" && entry.name ? entry.name : entry.key,
+      allowedOrigins: (Array.isArray(entry.allowedOrigins) ? entry.allowedOrigins : [])
+        .map((origin) => normalizeOrigin(String(origin)))
+        .filter((origin): origin is string => origin !== null),
+      theme: resolveEmbedTheme(DEFAULT_EMBED_THEME, entry.theme ?? {}),
+    });
+  }
+  return sites;
+}
+
+async function getEmbedSites(): Promise<Map<string, EmbedSite>> {
+  const now = Date.now();
+  if (now - lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+    return loadedSites;
+  }
+  lastCheckAt = now;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(EMBED_SITES_PATH)).mtimeMs;
+  } catch {
+    loadedSites = new Map();
+    loadedMtimeMs = null;
+    return loadedSites;
+  }
+
+  if (mtimeMs === loadedMtimeMs) {
+    return loadedSites;
+  }
+
+  try {
+    loadedSites = parseSites(JSON.parse(await fs.readFile(EMBED_SITES_PATH, "utf8")));
+    loadedMtimeMs = mtimeMs;
+    console.log(`Loaded ${loadedSites.size} embed sites from ${EMBED_SITES_PATH}`);
+  } catch (error) {
+    console.error(`Ignoring invalid embed sites config ${EMBED_SITES_PATH}`, error);
+  }
+  return loadedSites;
+}
+
+export async function findEmbedSite(siteKey: string | null | undefined): Promise<EmbedSite | null> {
+  if (!siteKey) return null;
+  return (await getEmbedSites()).get(siteKey) ?? null;
+}
+
+export function isOriginAllowed(site: EmbedSite, origin: string | null | undefined): boolean {
+  const normalized = origin ? normalizeOrigin(origin) : null;
+  return normalized !== null && site.allowedOrigins.includes(normalized);
+}
+
+/**
+ * `Content-Security-Policy` for a site's embed page. Browsers enforce it
+ * against the real parent, so it holds whatever the embedding page claims.
+ */
+export function embedFramePolicy(site: EmbedSite | null): string {
+  const ancestors = site && site.allowedOrigins.length > 0 ? site.allowedOrigins.join(" ") : "'none'";
+  return `frame-ancestors ${ancestors}`;
+}
+
+// Returns the origin to echo back, or null when the request is same-origin or
+// comes from a page that is not allowed for the site key it presents.
+async function resolveCorsOrigin(request: NextRequest): Promise<string | null> {
+  const origin = request.headers.get("origin");
+  if (!origin || origin === request.nextUrl.origin) return null;
+  const site = await findEmbedSite(request.nextUrl.searchParams.get("siteKey"));
+  return site && isOriginAllowed(site, origin) ? origin : null;
+}
+
+function setCorsHeaders(headers: Headers, origin: string) {
+  headers.set("Access-Control-Allow-Origin", origin);
+  headers.set("Access-Control-Expose-Headers", "X-Cache, Age, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset");
+  headers.append("Vary", "Origin");
+}
+
+/**
+ * Adds CORS headers for pages on a site's allowed origins. Cross-origin
+ * callers identify the site with `?siteKey=`, which preflights also carry.
+ */
+export function withSiteCors<C>(handler: (request: NextRequest, context: C) => Promise<Response>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const [origin, response] = await Promise.all([resolveCorsOrigin(request), handler(request, context)]);
+    if (origin) {
+      setCorsHeaders(response.headers, origin);
+    }
+    return response;
+  };
+}
+
+/** Answers CORS preflight requests for routes wrapped with `withSiteCors`. */
+export async function siteCorsPreflight(request: NextRequest): Promise<Response> {
+  const origin = await resolveCorsOrigin(request);
+  if (!origin) {
+    return new NextResponse(null, { status: 403 });
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  setCorsHeaders(response.headers, origin);
+  response.headers.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+  response.headers.set("Access-Control-Allow-Headers", "Content-Type");
+  response.headers.set("Access-Control-Max-Age", String(PREFLIGHT_MAX_AGE_SECONDS));
+  return response;
+}
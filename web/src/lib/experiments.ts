@@ -0,0 +1,307 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  Experiment,
+  ExperimentAssignment,
+  ExperimentResults,
+  ExperimentVariant,
+  MetricInterval,
+  OfferDisplay,
+  VariantResult,
+} from "@/types/experiments";
+import type { ClickRecord } from "@/types/tracking";
+import { listClicks } from "@/lib/clicks";
+import type { OfferListParams } from "@/lib/offer-query";
+import { listConversions } from "@/lib/postbacks";
+import { CONFIGURED_RANKING_WEIGHTS, parseRankingStrategy, parseRankingWeights } from "@/lib/ranking";
+
+const EXPERIMENTS_CONFIG_PATH = process.env.EXPERIMENTS_CONFIG_PATH ?? path.join(process.cwd(), "experiments.json");
+const RELOAD_CHECK_INTERVAL_MS = 2000;
+// 95% two-sided normal quantile.
+const Z_95 = 1.96;
+
+/** Random per-browser key that keeps variant assignment sticky. */
+export const EXPERIMENT_COOKIE = "ogads_vid";
+export const EXPERIMENT_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const VISITOR_KEY_PATTERN = /^[\w-]{8,128}$/;
+
+export const DEFAULT_OFFER_DISPLAY: OfferDisplay = { copy: "description", layout: "grid" };
+
+let loadedExperiments: Experiment[] = [];
+let loadedMtimeMs: number | null = null;
+let lastCheckAt = 0;
+
+function parseVariant(raw: Record<string, unknown>, index: number): ExperimentVariant | null {
+  const id = typeof raw.id === "string" && raw.id ? raw.id : `variant-${index + 1}`;
+  const weight = raw.weight === undefined ? 1 : Number(raw.weight);
+  if (!Number.isFinite(weight) || weight < 0) {
+    console.warn(`Skipping experiment variant ${id}: weight must be a non-negative number`);
+    return null;
+  }
+
+  const sort = typeof raw.sort === "string" ? parseRankingStrategy(raw.sort) ?? null : null;
+  if (raw.sort !== undefined && !sort) {
+    console.warn(`Ignoring unknown sort ${String(raw.sort)} in experiment variant ${id}`);
+  }
+  return {
+    id,
+    weight,
+    sort,
+    weights: typeof raw.weights === "string" ? parseRankingWeights(raw.weights, CONFIGURED_RANKING_WEIGHTS) : null,
+    copy: raw.copy === "description" || raw.copy === "creativeText" ? raw.copy : null,
+    layout: raw.layout === "grid" || raw.layout === "list" ? raw.layout : null,
+  };
+}
+
+function parseExperiments(raw: unknown): Experiment[] {
+  const source = (raw as { experiments?: unknown })?.experiments;
+  if (!Array.isArray(source)) {
+    throw new Error("experiments config must be a JSON object with an experiments array");
+  }
+
+  const experiments: Experiment[] = [];
+  for (const entry of source as Record<string, unknown>[]) {
+    if (!entry || typeof entry.id !== "string" || !/^[\w-]{1,64}$/.test(entry.id)) {
+      console.warn("Skipping experiment without a valid id (1-64 letters, digits, _ or -)", entry);
+      continue;
+    }
+    const variants = (Array.isArray(entry.variants) ? entry.variants : [])
+      .map((variant, index) => parseVariant(variant ?? {}, index))
+      .filter((variant): variant is ExperimentVariant => variant !== null);
+    const uniqueIds = new Set(variants.map((variant) => variant.id));
+    if (variants.length < 2 || uniqueIds.size !== variants.length || variants.every((variant) => variant.weight === 0)) {
+      console.warn(`Skipping experiment ${entry.id}: it needs at least two uniquely named variants with weight`);
+      continue;
+    }
+    experiments.push({
+      id: entry.id,
+      name: typeof entry.name === "string" && entry.name ? entry.name : entry.id,
+      enabled: entry.enabled !== false,
+      variants,
+    });
+  }
+  return experiments;
+}
+
+/** Returns the configured experiments, re-reading the file when it changes. */
+export async function getExperiments(): Promise<Experiment[]> {
+  const now = Date.now();
+  if (now - lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+    return loadedExperiments;
+  }
+  lastCheckAt = now;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(EXPERIMENTS_CONFIG_PATH)).mtimeMs;
+  } catch {
+    loadedExperiments = [];
+    loadedMtimeMs = null;
+    return loadedExperiments;
+  }
+
+  if (mtimeMs === loadedMtimeMs) {
+    return loadedExperiments;
+  }
+
+  try {
+    loadedExperiments = parseExperiments(JSON.parse(await fs.readFile(EXPERIMENTS_CONFIG_PATH, "utf8")));
+    loadedMtimeMs = mtimeMs;
+    console.log(`Loaded ${loadedExperiments.length} experiments from ${EXPERIMENTS_CONFIG_PATH}`);
+  } catch (error) {
+    console.error(`Ignoring invalid experiments config ${EXPERIMENTS_CONFIG_PATH}`, error);
+  }
+  return loadedExperiments;
+}
+
+/**
+ * The key variants are assigned by: the visitor cookie when the browser has
+ * one, so the wall, `/api/offers` and `/api/track` agree, otherwise the user id.
+ */
+export function resolveExperimentKey(cookie: string | null | undefined, userId: string | null | undefined): string | null {
+  if (cookie && VISITOR_KEY_PATTERN.test(cookie)) return cookie;
+  const trimmed = userId?.trim();
+  return trimmed ? `user:${trimmed}` : null;
+}
+
+// Hashing instead of storing assignments keeps them sticky across instances
+// and restarts, as long as an experiment's variants and weights are unchanged.
+function assignVariant(experiment: Experiment, key: string): ExperimentVariant {
+  const digest = createHash("sha256").update(`${experiment.id}:${key}`).digest();
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (digest.readUInt32BE(0) / 0x100000000) * totalWeight;
+  for (const variant of experiment.variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+export interface VisitorExperiments {
+  assignments: ExperimentAssignment[];
+  /** Assigned variants in config order; earlier experiments win when settings overlap. */
+  variants: ExperimentVariant[];
+}
+
+export async function getVisitorExperiments(key: string | null): Promise<VisitorExperiments> {
+  if (!key) return { assignments: [], variants: [] };
+
+  const assigned = (await getExperiments())
+    .filter((experiment) => experiment.enabled)
+    .map((experiment) => ({ experiment, variant: assignVariant(experiment, key) }));
+  return {
+    assignments: assigned.map(({ experiment, variant }) => ({ experimentId: experiment.id, variantId: variant.id })),
+    variants: assigned.map(({ variant }) => variant),
+  };
+}
+
+/** Applies variant ranking unless the request chose `sort`/`weights` itself. */
+export function applyExperimentRanking(
+  params: OfferListParams,
+  experiments: VisitorExperiments,
+  searchParams: URLSearchParams
+): OfferListParams {
+  const sort = searchParams.has("sort") ? null : experiments.variants.find((variant) => variant.sort)?.sort;
+  const weights = searchParams.has("weights") ? null : experiments.variants.find((variant) => variant.weights)?.weights;
+  return { ...params, sort: sort ?? params.sort, weights: weights ?? params.weights };
+}
+
+export function resolveOfferDisplay(experiments: VisitorExperiments): OfferDisplay {
+  return {
+    copy: experiments.variants.find((variant) => variant.copy)?.copy ?? DEFAULT_OFFER_DISPLAY.copy,
+    layout: experiments.variants.find((variant) => variant.layout)?.layout ?? DEFAULT_OFFER_DISPLAY.layout,
+  };
+}
+
+export class ExperimentQueryError extends Error {
+  readonly param: string;
+
+  constructor(param: string, message: string) {
+    super(message);
+    this.name = "ExperimentQueryError";
+    this.param = param;
+  }
+}
+
+export interface ExperimentResultsParams {
+  /** Null reports every configured experiment. */
+  experimentId: string | null;
+  from: Date | null;
+  to: Date | null;
+}
+
+function parseTimestamp(value: string | null, param: string): Date | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new ExperimentQueryError(param, `${param} must be an ISO 8601 timestamp or YYYY-MM-DD date`);
+  }
+  return parsed;
+}
+
+export function parseExperimentResultsParams(searchParams: URLSearchParams): ExperimentResultsParams {
+  const from = parseTimestamp(searchParams.get("from"), "from");
+  const to = parseTimestamp(searchParams.get("to"), "to");
+  if (from && to && from >= to) {
+    throw new ExperimentQueryError("from", "from must be before to");
+  }
+  return { experimentId: searchParams.get("experiment")?.trim() || null, from, to };
+}
+
+// Wilson score interval, which stays inside 0..1 for small samples and rates near 0.
+function conversionRateInterval(conversions: number, clicks: number): MetricInterval {
+  if (clicks === 0) return { value: null, low: null, high: null };
+  const rate = conversions / clicks;
+  const z2 = Z_95 * Z_95;
+  const center = (rate + z2 / (2 * clicks)) / (1 + z2 / clicks);
+  const margin = (Z_95 / (1 + z2 / clicks)) * Math.sqrt((rate * (1 - rate)) / clicks + z2 / (4 * clicks * clicks));
+  const percent = (value: number) => Number((value * 100).toFixed(4));
+  return { value: percent(rate), low: percent(Math.max(0, center - margin)), high: percent(Math.min(1, center + margin)) };
+}
+
+// Normal approximation over per-click earnings (0 for clicks that did not convert).
+function earningsPerClickInterval(earnings: number[]): MetricInterval {
+  const count = earnings.length;
+  if (count === 0) return { value: null, low: null, high: null };
+  const mean = earnings.reduce((sum, value) => sum + value, 0) / count;
+  const round = (value: number) => Number(value.toFixed(6));
+  if (count < 2) return { value: round(mean), low: null, high: null };
+
+  const variance = earnings.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1);
+  const margin = Z_95 * Math.sqrt(variance / count);
+  return { value: round(mean), low: round(Math.max(0, mean - margin)), high: round(mean + margin) };
+}
+
+/**
+ * Compares variants by the clicks they produced in the range. Conversions are
+ * attributed to their click whenever they arrive, so recent ranges can still
+ * gain conversions.
+ */
+export async function getExperimentResults(params: ExperimentResultsParams): Promise<ExperimentResults[]> {
+  const [experiments, clicks, conversions] = await Promise.all([getExperiments(), listClicks(), listConversions()]);
+  const selected = params.experimentId
+    ? experiments.filter((experiment) => experiment.id === params.experimentId)
+    : experiments;
+  if (params.experimentId && selected.length === 0) {
+    throw new ExperimentQueryError("experiment", `Unknown experiment ${params.experimentId}`);
+  }
+
+  const earningsByClick = new Map<string, number>();
+  const heldClicks = new Set<string>();
+  const rejectedClicks = new Set<string>();
+  for (const conversion of conversions) {
+    if (conversion.status === "held") heldClicks.add(conversion.clickId);
+    if (conversion.status === "rejected") rejectedClicks.add(conversion.clickId);
+    if (conversion.status !== "approved") continue;
+    earningsByClick.set(conversion.clickId, (earningsByClick.get(conversion.clickId) ?? 0) + conversion.payoutUsd);
+  }
+
+  const inRange = (click: ClickRecord) => {
+    const time = Date.parse(click.createdAt);
+    return (!params.from || time >= params.from.getTime()) && (!params.to || time < params.to.getTime());
+  };
+  const rangedClicks = clicks.filter(inRange);
+
+  return selected.map((experiment) => {
+    const clicksByVariant = new Map<string, ClickRecord[]>(experiment.variants.map((variant) => [variant.id, []]));
+    for (const click of rangedClicks) {
+      const assignment = (click.experiments ?? []).find((entry) => entry.experimentId === experiment.id);
+      // Clicks on variants removed from the config are left out.
+      clicksByVariant.get(assignment?.variantId ?? "")?.push(click);
+    }
+
+    const variants = experiment.variants.map((variant): VariantResult => {
+      const variantClicks = clicksByVariant.get(variant.id) ?? [];
+      const earnings = variantClicks.map((click) => earningsByClick.get(click.id) ?? 0);
+      const converted = variantClicks.filter((click) => earningsByClick.has(click.id)).length;
+      return {
+        variantId: variant.id,
+        clicks: earnings.length,
+        conversions: converted,
+        held: variantClicks.filter((click) => heldClicks.has(click.id)).length,
+        rejected: variantClicks.filter((click) => rejectedClicks.has(click.id)).length,
+        payoutUsd: Number(earnings.reduce((sum, value) => sum + value, 0).toFixed(6)),
+        cvr: conversionRateInterval(converted, earnings.length),
+        epc: earningsPerClickInterval(earnings),
+        epcLift: null,
+      };
+    });
+
+    const controlEpc = variants[0].epc.value;
+    for (const result of variants.slice(1)) {
+      result.epcLift = controlEpc && result.epc.value !== null
+        ? Number((((result.epc.value - controlEpc) / controlEpc) * 100).toFixed(2))
+        : null;
+    }
+
+    return {
+      experimentId: experiment.id,
+      name: experiment.name,
+      enabled: experiment.enabled,
+      from: params.from?.toISOString() ?? null,
+      to: params.to?.toISOString() ?? null,
+      variants,
+    };
+  });
+}
@@ -0,0 +1,150 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { ClickRecord, FraudAssessment, FraudRule, FraudSignal } from "@/types/tracking";
+import { listClicks } from "@/lib/clicks";
+import { getGeoResolver } from "@/lib/geo";
+import { CidrRange, findMatchingRange, parseCidrList } from "@/lib/ip-range";
+
+function readNumberEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// One CIDR per line; `#` starts a comment. Re-read when the file changes.
+const DATACENTER_RANGES_PATH = process.env.FRAUD_IP_RANGES_PATH ?? path.join(process.cwd(), "datacenter-ranges.txt");
+const RANGES_CHECK_INTERVAL_MS = 5000;
+const CLICK_WINDOW_MS = readNumberEnv(process.env.FRAUD_CLICK_WINDOW_MS, 60 * 60 * 1000);
+const MAX_CLICKS_PER_IP = readNumberEnv(process.env.FRAUD_MAX_CLICKS_PER_IP, 20);
+const MAX_CLICKS_PER_USER = readNumberEnv(process.env.FRAUD_MAX_CLICKS_PER_USER, 30);
+const MIN_CONVERSION_SECONDS = readNumberEnv(process.env.FRAUD_MIN_CONVERSION_SECONDS, 30);
+/** Conversions scoring at or above this are held for review. */
+export const FRAUD_REVIEW_THRESHOLD = readNumberEnv(process.env.FRAUD_REVIEW_THRESHOLD, 50);
+
+const RULE_SCORES: Record<FraudRule, number> = {
+  datacenter_ip: 60,
+  ip_velocity: 40,
+  user_velocity: 40,
+  fast_conversion: 60,
+  ip_mismatch: 20,
+  country_mismatch: 50,
+};
+
+let datacenterRanges: CidrRange[] = [];
+let rangesMtimeMs: number | null = null;
+let rangesCheckedAt = 0;
+
+async function getDatacenterRanges(): Promise<CidrRange[]> {
+  const now = Date.now();
+  if (now - rangesCheckedAt < RANGES_CHECK_INTERVAL_MS) {
+    return datacenterRanges;
+  }
+  rangesCheckedAt = now;
+
+  try {
+    const { mtimeMs } = await fs.stat(DATACENTER_RANGES_PATH);
+    if (mtimeMs !== rangesMtimeMs) {
+      const contents = await fs.readFile(DATACENTER_RANGES_PATH, "utf8");
+      datacenterRanges = parseCidrList(
+        contents
+          .split("\n")
+          .map((line) => line.replace(/#.*/, "").trim())
+          .filter(Boolean)
+          .join(",")
+      );
+      rangesMtimeMs = mtimeMs;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to read datacenter ranges from ${DATACENTER_RANGES_PATH}`, error);
+    }
+    datacenterRanges = [];
+    rangesMtimeMs = null;
+  }
+  return datacenterRanges;
+}
+
+function signal(rule: FraudRule, detail: string): FraudSignal {
+  return { rule, score: RULE_SCORES[rule], detail };
+}
+
+function toAssessment(signals: FraudSignal[]): FraudAssessment {
+  return { score: signals.reduce((total, entry) => total + entry.score, 0), signals };
+}
+
+async function checkDatacenterIp(ip: string | null, label: string): Promise<FraudSignal | null> {
+  if (!ip) return null;
+  const range = findMatchingRange(ip, await getDatacenterRanges());
+  return range ? signal("datacenter_ip", `${label} ${ip} is in datacenter range ${range.source}`) : null;
+}
+
+export interface ClickCandidate {
+  userId: string;
+  ip: string | null;
+}
+
+/** Scores a click before it is recorded; the click itself counts toward the velocity limits. */
+export async function screenClick(candidate: ClickCandidate): Promise<FraudAssessment> {
+  const since = Date.now() - CLICK_WINDOW_MS;
+  const recent = (await listClicks()).filter((click) => !click.orphaned && Date.parse(click.createdAt) >= since);
+  const windowMinutes = Math.round(CLICK_WINDOW_MS / 60000);
+  const signals: FraudSignal[] = [];
+
+  const datacenter = await checkDatacenterIp(candidate.ip, "Click IP");
+  if (datacenter) signals.push(datacenter);
+
+  if (candidate.ip) {
+    const ipClicks = recent.filter((click) => click.ip === candidate.ip).length + 1;
+    if (ipClicks > MAX_CLICKS_PER_IP) {
+      signals.push(signal("ip_velocity", `${ipClicks} clicks from ${candidate.ip} in ${windowMinutes} minutes`));
+    }
+  }
+
+  const userClicks = recent.filter((click) => click.userId === candidate.userId).length + 1;
+  if (userClicks > MAX_CLICKS_PER_USER) {
+    signals.push(signal("user_velocity", `${userClicks} clicks by user ${candidate.userId} in ${windowMinutes} minutes`));
+  }
+
+  return toAssessment(signals);
+}
+
+export interface ConversionCandidate {
+  ip: string | null;
+  convertedAt: Date;
+}
+
+/**
+ * Scores a conversion against its click. Signals raised on the click carry
+ * over so that a conversion from a datacenter or burst click is held too.
+ */
+export async function screenConversion(click: ClickRecord, conversion: ConversionCandidate): Promise<FraudAssessment> {
+  const signals: FraudSignal[] = [...(click.fraud?.signals ?? [])];
+
+  if (!signals.some((entry) => entry.rule === "datacenter_ip")) {
+    const datacenter = await checkDatacenterIp(conversion.ip, "Conversion IP");
+    if (datacenter) signals.push(datacenter);
+  }
+
+  // Orphaned clicks are created from the postback, so their timing and
+  // network details say nothing about the visitor.
+  if (!click.orphaned) {
+    const elapsedSeconds = (conversion.convertedAt.getTime() - Date.parse(click.createdAt)) / 1000;
+    if (elapsedSeconds < MIN_CONVERSION_SECONDS) {
+      signals.push(
+        signal("fast_conversion", `Converted ${Math.max(0, Math.round(elapsedSeconds))}s after the click`)
+      );
+    }
+
+    if (conversion.ip && click.ip && conversion.ip !== click.ip) {
+      signals.push(signal("ip_mismatch", `Click IP ${click.ip} differs from conversion IP ${conversion.ip}`));
+
+      const geo = await getGeoResolver().lookup(conversion.ip);
+      if (geo?.countryCode && click.country && geo.countryCode !== click.country) {
+        signals.push(
+          signal("country_mismatch", `Click country ${click.country} differs from conversion country ${geo.countryCode}`)
+        );
+      }
+    }
+  }
+
+  return toAssessment(signals);
+}
@@ -0,0 +1,80 @@
+import maxmind, { AsnResponse, CityResponse, Reader } from "maxmind";
+
+export interface GeoLocation {
+  ip: string;
+  countryCode: string | null;
+  countryName: string | null;
+  region: string | null;
+  city: string | null;
+  asn: number | null;
+  asOrganization: string | null;
+}
+
+export interface GeoResolver {
+  lookup(ip: string): Promise<GeoLocation | null>;
+}
+
+export interface MaxmindGeoResolverOptions {
+  /** GeoLite2/GeoIP2 City or Country database (.mmdb). */
+  locationDbPath: string;
+  /** Optional GeoLite2/GeoIP2 ASN database (.mmdb). */
+  asnDbPath?: string;
+}
+
+function openReader<T extends CityResponse | AsnResponse>(filepath: string): Promise<Reader<T> | null> {
+  return maxmind.open<T>(filepath, { watchForUpdates: true, watchForUpdatesNonPersistent: true }).catch((error) => {
+    console.error(`Failed to open GeoIP database ${filepath}`, error);
+    return null;
+  });
+}
+
+export function createMaxmindGeoResolver({ locationDbPath, asnDbPath }: MaxmindGeoResolverOptions): GeoResolver {
+  const locationReader = openReader<CityResponse>(locationDbPath);
+  const asnReader = asnDbPath ? openReader<AsnResponse>(asnDbPath) : Promise.resolve(null);
+
+  return {
+    async lookup(ip) {
+      if (!maxmind.validate(ip)) return null;
+
+      const [locationDb, asnDb] = await Promise.all([locationReader, asnReader]);
+      const location = locationDb?.get(ip) ?? null;
+      const asn = asnDb?.get(ip) ?? null;
+      if (!location && !asn) return null;
+
+      return {
+        ip,
+        countryCode: location?.country?.iso_code ?? location?.registered_country?.iso_code ?? null,
+        countryName: location?.country?.names.en ?? location?.registered_country?.names.en ?? null,
+        region: location?.subdivisions?.[0]?.names.en ?? null,
+        city: location?.city?.names.en ?? null,
+        asn: asn?.autonomous_system_number ?? location?.traits?.autonomous_system_number ?? null,
+        asOrganization: asn?.autonomous_system_organization ?? location?.traits?.autonomous_system_organization ?? null,
+      };
+    },
+  };
+}
+
+const nullGeoResolver: GeoResolver = {
+  async lookup() {
+    return null;
+  },
+};
+
+let defaultResolver: GeoResolver | null = null;
+
+export function getGeoResolver(): GeoResolver {
+  if (defaultResolver) return defaultResolver;
+
+  const locationDbPath = process.env.GEOIP_DB_PATH;
+  if (!locationDbPath) {
+    console.warn("GEOIP_DB_PATH is not configured; visitor countries cannot be resolved");
+    defaultResolver = nullGeoResolver;
+    return defaultResolver;
+  }
+
+  defaultResolver = createMaxmindGeoResolver({
+    locationDbPath,
+    asnDbPath: process.env.GEOIP_ASN_DB_PATH,
+  });
+  return defaultResolver;
+}
@@ -0,0 +1,149 @@
+export interface CidrRange {
+  source: string;
+  bytes: number[];
+  prefix: number;
+}
+
+function parseIpv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number.parseInt(part, 10);
+    if (octet > 255) return null;
+    bytes.push(octet);
+  }
+  return bytes;
+}
+
+function parseIpv6(value: string): number[] | null {
+  let address = value;
+  let tail: number[] = [];
+
+  // A trailing dotted quad (e.g. ::ffff:192.0.2.1) fills the last 32 bits.
+  const lastColon = address.lastIndexOf(":");
+  if (address.includes(".", lastColon)) {
+    const ipv4 = parseIpv4(address.slice(lastColon + 1));
+    if (!ipv4) return null;
+    tail = ipv4;
+    address = address.slice(0, lastColon + 1) + "0:0";
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const parseGroups = (segment: string) =>
+    segment === "" ? [] : segment.split(":");
+  const head = parseGroups(halves[0]);
+  const rest = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  const bytes: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    const value16 = Number.parseInt(group, 16);
+    bytes.push(value16 >> 8, value16 & 0xff);
+  }
+
+  if (tail.length === 4) {
+    bytes.splice(12, 4, ...tail);
+  }
+  return bytes;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address into its bytes. IPv4-mapped IPv6 addresses
+ * are unwrapped to plain IPv4 so they match IPv4 ranges.
+ */
+export function parseIp(value: string): number[] | null {
+  const trimmed = value.trim().replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  if (!trimmed) return null;
+
+  if (!trimmed.includes(":")) {
+    return parseIpv4(trimmed);
+  }
+
+  const bytes = parseIpv6(trimmed);
+  if (!bytes) return null;
+
+  const isMapped =
+    bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return isMapped ? bytes.slice(12) : bytes;
+}
+
+export function parseCidr(value: string): CidrRange | null {
+  const source = value.trim();
+  const [address, prefixPart] = source.split("/");
+  const bytes = parseIp(address ?? "");
+  if (!bytes) return null;
+
+  const maxPrefix = bytes.length * 8;
+  let prefix = maxPrefix;
+  if (prefixPart !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixPart)) return null;
+    prefix = Number.parseInt(prefixPart, 10);
+    if (prefix > maxPrefix) return null;
+  }
+
+  return { source, bytes, prefix };
+}
+
+/** Parses a comma or whitespace separated list of CIDRs, skipping invalid entries. */
+export function parseCidrList(value: string | undefined): CidrRange[] {
+  if (!value) return [];
+  return value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((entry) => {
+      const range = parseCidr(entry);
+      if (!range) {
+        console.warn(`Ignoring invalid CIDR range "${entry}"`);
+      }
+      return range;
+    })
+    .filter((range): range is CidrRange => range !== null);
+}
+
+export function isIpInRange(ip: string | number[], range: CidrRange): boolean {
+  const bytes = typeof ip === "string" ? parseIp(ip) : ip;
+  if (!bytes || bytes.length !== range.bytes.length) return false;
+
+  const fullBytes = Math.floor(range.prefix / 8);
+  for (let index = 0; index < fullBytes; index += 1) {
+    if (bytes[index] !== range.bytes[index]) return false;
+  }
+
+  const remainingBits = range.prefix % 8;
+  if (remainingBits === 0) return true;
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (bytes[fullBytes] & mask) === (range.bytes[fullBytes] & mask);
+}
+
+export function findMatchingRange(ip: string, ranges: CidrRange[]): CidrRange | null {
+  const bytes = parseIp(ip);
+  if (!bytes) return null;
+  return ranges.find((range) => isIpInRange(bytes, range)) ?? null;
+}
+
+export function isIpInRanges(ip: string, ranges: CidrRange[]): boolean {
+  return findMatchingRange(ip, ranges) !== null;
+}
+
+/**
+ * The /24 (IPv4) or /48 (IPv6) network an address belongs to, e.g.
+ * `203.0.113.0/24`; roughly one customer or site of an ISP.
+ */
+export function getIpNetworkPrefix(ip: string): string | null {
+  const bytes = parseIp(ip);
+  if (!bytes) return null;
+  if (bytes.length === 4) {
+    return `${bytes.slice(0, 3).join(".")}.0/24`;
+  }
+  const groups = [0, 2, 4].map((index) => ((bytes[index] << 8) | bytes[index + 1]).toString(16));
+  return `${groups.join(":")}::/48`;
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import type { LedgerEntry } from "@/types/ledger";
+import { readCollection, updateCollection } from "@/lib/store";
+
+const LEDGER_COLLECTION = "ledger";
+
+const parsedPointsPerUsd = Number.parseFloat(process.env.POINTS_PER_USD ?? "");
+export const POINTS_PER_USD = Number.isFinite(parsedPointsPerUsd) && parsedPointsPerUsd > 0 ? parsedPointsPerUsd : 100;
+
+export class LedgerError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LedgerError";
+    this.status = status;
+  }
+}
+
+export interface LedgerWriteResult {
+  entry: LedgerEntry;
+  duplicate: boolean;
+}
+
+export function payoutToPoints(payoutUsd: number): number {
+  // Round away float noise first so 0.29 USD is 29 points, not 28.
+  return Math.floor(Number((Math.abs(payoutUsd) * POINTS_PER_USD).toFixed(6)));
+}
+
+function sumPoints(entries: LedgerEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.points, 0);
+}
+
+// Entries are never edited or removed. Writes that reuse an existing id are
+// treated as replays and return the stored entry untouched.
+function appendEntry(entry: LedgerEntry, guard?: (entries: LedgerEntry[]) => void): Promise<LedgerWriteResult> {
+  return updateCollection<LedgerEntry, LedgerWriteResult>(LEDGER_COLLECTION, (entries) => {
+    const existing = entries.find((candidate) => candidate.id === entry.id);
+    if (existing) {
+      return { result: { entry: existing, duplicate: true } };
+    }
+
+    guard?.(entries);
+    return { records: [...entries, entry], result: { entry, duplicate: false } };
+  });
+}
+
+export function creditConversion(userId: string, conversionId: string, points: number, description: string) {
+  return appendEntry({
+    id: `credit:${conversionId}`,
+    userId,
+    kind: "credit",
+    points,
+    description,
+    conversionId,
+    reversesEntryId: null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export function reverseConversion(conversionId: string, description: string): Promise<LedgerWriteResult | null> {
+  return updateCollection<LedgerEntry, LedgerWriteResult | null>(LEDGER_COLLECTION, (entries) => {
+    const reversalId = `reversal:${conversionId}`;
+    const existing = entries.find((candidate) => candidate.id === reversalId);
+    if (existing) {
+      return { result: { entry: existing, duplicate: true } };
+    }
+
+    const credit = entries.find((candidate) => candidate.id === `credit:${conversionId}`);
+    if (!credit) {
+      return { result: null };
+    }
+
+    const reversal: LedgerEntry = {
+      id: reversalId,
+      userId: credit.userId,
+      kind: "reversal",
+      points: -credit.points,
+      description,
+      conversionId,
+      reversesEntryId: credit.id,
+      createdAt: new Date().toISOString(),
+    };
+    return { records: [...entries, reversal], result: { entry: reversal, duplicate: false } };
+  });
+}
+
+export function debitPoints(userId: string, points: number, description: string) {
+  if (!Number.isInteger(points) || points <= 0) {
+    throw new LedgerError("Debit amount must be a positive whole number of points", 400);
+  }
+
+  return appendEntry(
+    {
+      id: `debit:${randomUUID()}`,
+      userId,
+      kind: "debit",
+      points: -points,
+      description,
+      conversionId: null,
+      reversesEntryId: null,
+      createdAt: new Date().toISOString(),
+    },
+    (entries) => {
+      const balance = sumPoints(entries.filter((entry) => entry.userId === userId));
+      if (balance < points) {
+        throw new LedgerError("Insufficient balance", 409);
+      }
+    }
+  );
+}
+
+export async function getLedgerEntries(userId: string): Promise<LedgerEntry[]> {
+  const entries = await readCollection<LedgerEntry>(LEDGER_COLLECTION);
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getBalance(userId: string): Promise<number> {
+  return sumPoints(await getLedgerEntries(userId));
+}
@@ -0,0 +1,174 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { LockedResource, LockedResourceKind, LockerProgress, PublicLockedResource } from "@/types/locker";
+import { listClicks } from "@/lib/clicks";
+import { listConversions } from "@/lib/postbacks";
+import { DATA_DIR, readCollection, updateCollection } from "@/lib/store";
+
+const LOCKERS_COLLECTION = "lockers";
+export const LOCKER_FILES_DIR = path.resolve(process.env.LOCKER_FILES_DIR ?? path.join(DATA_DIR, "locker-files"));
+
+const LOCKER_KINDS: LockedResourceKind[] = ["url", "file", "text"];
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_TEXT_LENGTH = 10000;
+
+export class LockerError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LockerError";
+    this.status = status;
+  }
+}
+
+export interface LockerInput {
+  title: string;
+  description?: string;
+  kind: string;
+  content: string;
+  requiredCompletions?: number;
+  requiredPoints?: number;
+}
+
+function parseRequirement(value: number | undefined, name: string): number {
+  const parsed = value ?? 0;
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new LockerError(`${name} must be a whole number of at least 0`, 400);
+  }
+  return parsed;
+}
+
+/** Resolves a locker file name inside LOCKER_FILES_DIR, refusing anything that escapes it. */
+export function resolveLockerFile(name: string): string {
+  const resolved = path.resolve(LOCKER_FILES_DIR, name);
+  if (path.dirname(resolved) !== LOCKER_FILES_DIR || path.basename(resolved) !== name) {
+    throw new LockerError("File must be a plain file name inside the locker files directory", 400);
+  }
+  return resolved;
+}
+
+async function validateContent(kind: LockedResourceKind, content: string): Promise<string> {
+  if (kind === "url") {
+    try {
+      const url = new URL(content);
+      if (url.protocol === "http:" || url.protocol === "https:") return url.toString();
+    } catch {
+      // Fall through to the error below.
+    }
+    throw new LockerError("URL must be an absolute http(s) URL", 400);
+  }
+
+  if (kind === "file") {
+    const file = resolveLockerFile(content);
+    const stats = await fs.stat(file).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new LockerError(`File ${content} was not found in ${LOCKER_FILES_DIR}`, 400);
+    }
+    return content;
+  }
+
+  if (content.length > MAX_TEXT_LENGTH) {
+    throw new LockerError(`Text must be at most ${MAX_TEXT_LENGTH} characters`, 400);
+  }
+  return content;
+}
+
+export async function createLocker(input: LockerInput): Promise<LockedResource> {
+  const title = input.title.trim();
+  const description = input.description?.trim() ?? "";
+  const content = input.content.trim();
+  const kind = input.kind as LockedResourceKind;
+
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    throw new LockerError(`Title is required and must be at most ${MAX_TITLE_LENGTH} characters`, 400);
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new LockerError(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`, 400);
+  }
+  if (!LOCKER_KINDS.includes(kind)) {
+    throw new LockerError(`Kind must be one of: ${LOCKER_KINDS.join(", ")}`, 400);
+  }
+  if (!content) {
+    throw new LockerError("Content is required", 400);
+  }
+
+  const requiredCompletions = parseRequirement(input.requiredCompletions, "Required completions");
+  const requiredPoints = parseRequirement(input.requiredPoints, "Required points");
+  if (requiredCompletions === 0 && requiredPoints === 0) {
+    throw new LockerError("Require at least one completion or some points", 400);
+  }
+
+  const locker: LockedResource = {
+    id: randomUUID(),
+    title,
+    description,
+    kind,
+    content: await validateContent(kind, content),
+    requiredCompletions,
+    requiredPoints,
+    createdAt: new Date().toISOString(),
+  };
+
+  return updateCollection<LockedResource, LockedResource>(LOCKERS_COLLECTION, (lockers) => ({
+    records: [...lockers, locker],
+    result: locker,
+  }));
+}
+
+export async function listLockers(): Promise<LockedResource[]> {
+  return readCollection<LockedResource>(LOCKERS_COLLECTION);
+}
+
+export async function findLocker(lockerId: string): Promise<LockedResource | null> {
+  const lockers = await listLockers();
+  return lockers.find((locker) => locker.id === lockerId) ?? null;
+}
+
+export function deleteLocker(lockerId: string): Promise<boolean> {
+  return updateCollection<LockedResource, boolean>(LOCKERS_COLLECTION, (lockers) => {
+    const remaining = lockers.filter((locker) => locker.id !== lockerId);
+    return remaining.length === lockers.length
+      ? { result: false }
+      : { records: remaining, result: true };
+  });
+}
+
+export function toPublicLocker(locker: LockedResource): PublicLockedResource {
+  return {
+    id: locker.id,
+    title: locker.title,
+    description: locker.description,
+    kind: locker.kind,
+    requiredCompletions: locker.requiredCompletions,
+    requiredPoints: locker.requiredPoints,
+    createdAt: locker.createdAt,
+  };
+}
+
+/**
+ * Counts the user's approved conversions on clicks made from this locker.
+ * Held conversions only count once a reviewer approves them.
+ */
+export async function getLockerProgress(locker: LockedResource, userId: string): Promise<LockerProgress> {
+  const [clicks, conversions] = await Promise.all([listClicks(), listConversions()]);
+  const lockerClicks = clicks.filter((click) => click.lockerId === locker.id && click.userId === userId);
+  const clickIds = new Set(lockerClicks.map((click) => click.id));
+
+  const converted = conversions.filter((conversion) => clickIds.has(conversion.clickId));
+  const approved = converted.filter((conversion) => conversion.status === "approved");
+  const completions = approved.length;
+  const points = approved.reduce((total, conversion) => total + conversion.points, 0);
+  const convertedClickIds = new Set(converted.map((conversion) => conversion.clickId));
+
+  return {
+    lockerId: locker.id,
+    userId,
+    completions,
+    points,
+    pendingClicks: lockerClicks.filter((click) => !convertedClickIds.has(click.id)).length,
+    unlocked: completions >= locker.requiredCompletions && points >= locker.requiredPoints,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { Offer } from "@/types/offers";
+import { parseUserAgent } from "@/lib/device";
+import {
+  listOfferHistoryProfiles,
+  listOfferSnapshots,
+  OfferHistoryQueryError,
+  parseOfferHistoryParams,
+  recordOfferSnapshot,
+} from "@/lib/offer-history";
+import type { OfferQuery } from "@/lib/offers";
+
+const DEVICE = parseUserAgent("Mozilla/5.0 (Windows NT 10.0; Win64; x64)");
+
+function queryFor(asn: number | null): OfferQuery {
+  return {
+    clientIp: "8.8.8.8",
+    userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
+    country: "US",
+    geo: asn === null
+      ? null
+      : { ip: "8.8.8.8", countryCode: "US", countryName: null, region: null, city: null, asn, asOrganization: null },
+    device: DEVICE,
+  };
+}
+
+function offer(id: number, payout: number): Offer {
+  return {
+    id,
+    network: "ogads",
+    name: `Offer ${id}`,
+    shortName: `Offer ${id}`,
+    description: "",
+    creativeText: "",
+    imageUrl: "",
+    payout,
+    countryCodes: ["US"],
+    devices: ["Desktop"],
+    trackingUrl: `https://track.example/${id}`,
+    epc: null,
+    cvr: null,
+    boosted: false,
+    type: null,
+    payoutLabel: null,
+  };
+}
+
+describe("recordOfferSnapshot", () => {
+  it("keeps a separate history per ASN", async () => {
+    await recordOfferSnapshot(queryFor(15169), "ogads", [offer(1, 1)]);
+    await recordOfferSnapshot(queryFor(7922), "ogads", [offer(2, 2)]);
+    await recordOfferSnapshot(queryFor(null), "ogads", [offer(3, 3)]);
+
+    const profiles = (await listOfferHistoryProfiles()).map(({ profile }) => profile.asn).sort();
+    expect(profiles).toEqual([15169, 7922, null]);
+
+    const base = { network: "ogads", country: "US", formFactor: DEVICE.formFactor, os: DEVICE.os };
+    const [google] = await listOfferSnapshots({ ...base, asn: 15169 });
+    expect(google.offers.map((entry) => entry.id)).toEqual([1]);
+    expect(google.profile.asn).toBe(15169);
+    const [unknown] = await listOfferSnapshots({ ...base, asn: null });
+    expect(unknown.offers.map((entry) => entry.id)).toEqual([3]);
+  });
+});
+
+describe("parseOfferHistoryParams", () => {
+  const profileQuery = "country=US&formFactor=desktop&os=windows";
+
+  it.each([
+    ["", null],
+    ["&asn=15169", 15169],
+    ["&asn=AS15169", 15169],
+  ])("reads asn from %j", (asn, expected) => {
+    expect(parseOfferHistoryParams(new URLSearchParams(profileQuery + asn)).profile?.asn).toBe(expected);
+  });
+
+  it("rejects an asn that is not a number", () => {
+    expect(() => parseOfferHistoryParams(new URLSearchParams(`${profileQuery}&asn=google`))).toThrow(
+      OfferHistoryQueryError
+    );
+  });
+});
@@ -0,0 +1,374 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { parseFormFactor, parseOperatingSystem } from "@/lib/device";
+import { DEFAULT_NETWORK, offerKey, parseOfferKey } from "@/lib/offer-providers";
+import type { OfferQuery } from "@/lib/offers";
+import { DATA_DIR, readCollection, updateCollection } from "@/lib/store";
+import { publishWebhookEventSafely } from "@/lib/webhooks";
+import type {
+  OfferAlert,
+  OfferChange,
+  OfferFieldChange,
+  OfferProfile,
+  OfferSnapshot,
+  OfferSnapshotDiff,
+  SnapshotOffer,
+} from "@/types/offer-history";
+import type { Offer } from "@/types/offers";
+
+const SNAPSHOT_COLLECTION_PREFIX = "offer-history-";
+const ALERTS_COLLECTION = "offer-alerts";
+const MAX_ALERTS = 1000;
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function readPercentEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const SNAPSHOT_INTERVAL_MS = readIntegerEnv(process.env.OFFER_SNAPSHOT_INTERVAL_MS, 10 * 60 * 1000);
+// 144 snapshots at the default interval keep a day of history per profile.
+const MAX_SNAPSHOTS = readIntegerEnv(process.env.OFFER_HISTORY_MAX_SNAPSHOTS, 144);
+const ALERT_THRESHOLDS = {
+  payout: readPercentEnv(process.env.OFFER_ALERT_PAYOUT_PERCENT, 20),
+  epc: readPercentEnv(process.env.OFFER_ALERT_EPC_PERCENT, 30),
+};
+// Offers watched for alerts as `<network>:<id>` keys; every offer when empty.
+const TRACKED_OFFER_KEYS = new Set(
+  (process.env.OFFER_ALERT_OFFER_IDS ?? "")
+    .split(",")
+    .map(parseOfferKey)
+    .filter((key): key is string => key !== null)
+);
+
+// OGAds history predates other networks and keeps its unprefixed collections,
+// and profiles without an ASN keep the names they had before ASNs were added.
+function profileCollection(profile: OfferProfile) {
+  const network = !profile.network || profile.network === DEFAULT_NETWORK ? "" : `${profile.network}-`;
+  const asn = profile.asn ? `-AS${profile.asn}` : "";
+  return `${SNAPSHOT_COLLECTION_PREFIX}${network}${profile.country ?? "ALL"}${asn}-${profile.formFactor}-${profile.os}`;
+}
+
+function toSnapshotOffer(offer: Offer): SnapshotOffer {
+  const { id, network, name, type, payout, epc, cvr, devices, countryCodes, boosted } = offer;
+  return { id, network, name, type, payout, epc, cvr, devices, countryCodes, boosted };
+}
+
+function percentChange(from: number | null, to: number | null): number | null {
+  if (from === null || to === null || from === 0) return null;
+  return Math.round(((to - from) / Math.abs(from)) * 10000) / 100;
+}
+
+function sameList(a: string[], b: string[]) {
+  return [...a].sort().join(",") === [...b].sort().join(",");
+}
+
+function diffOffer(before: SnapshotOffer, after: SnapshotOffer): OfferFieldChange[] {
+  const changes: OfferFieldChange[] = [];
+  for (const field of ["payout", "epc"] as const) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, from: before[field], to: after[field], percentChange: percentChange(before[field], after[field]) });
+    }
+  }
+  for (const field of ["devices", "countryCodes"] as const) {
+    if (!sameList(before[field], after[field])) {
+      changes.push({ field, from: before[field], to: after[field], percentChange: null });
+    }
+  }
+  return changes;
+}
+
+// Snapshots taken before offers carried a network belong to their profile's.
+function snapshotOfferKey(snapshot: OfferSnapshot, offer: SnapshotOffer) {
+  return offerKey(offer.network || snapshot.profile.network, offer.id);
+}
+
+export function diffSnapshots(before: OfferSnapshot, after: OfferSnapshot): OfferSnapshotDiff {
+  const previous = new Map(before.offers.map((offer) => [snapshotOfferKey(before, offer), offer]));
+  const current = new Map(after.offers.map((offer) => [snapshotOfferKey(after, offer), offer]));
+
+  const changed: OfferChange[] = [];
+  for (const offer of after.offers) {
+    const old = previous.get(snapshotOfferKey(after, offer));
+    const changes = old ? diffOffer(old, offer) : [];
+    if (changes.length > 0) {
+      changed.push({
+        offerId: offer.id,
+        network: offer.network || after.profile.network || DEFAULT_NETWORK,
+        name: offer.name,
+        changes,
+      });
+    }
+  }
+
+  return {
+    fromSnapshotId: before.id,
+    toSnapshotId: after.id,
+    from: before.takenAt,
+    to: after.takenAt,
+    added: after.offers.filter((offer) => !previous.has(snapshotOfferKey(after, offer))),
+    removed: before.offers.filter((offer) => !current.has(snapshotOfferKey(before, offer))),
+    changed,
+  };
+}
+
+export function hasChanges(diff: OfferSnapshotDiff) {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+function findAlerts(diff: OfferSnapshotDiff, profile: OfferProfile): OfferAlert[] {
+  return diff.changed.flatMap((change) => {
+    if (TRACKED_OFFER_KEYS.size > 0 && !TRACKED_OFFER_KEYS.has(offerKey(change.network, change.offerId))) return [];
+
+    return change.changes.flatMap((fieldChange): OfferAlert[] => {
+      const { field } = fieldChange;
+      if (field !== "payout" && field !== "epc") return [];
+      const threshold = ALERT_THRESHOLDS[field];
+      if (fieldChange.percentChange === null || Math.abs(fieldChange.percentChange) < threshold) return [];
+
+      return [{
+        id: randomUUID(),
+        profile,
+        offerId: change.offerId,
+        offerName: change.name,
+        field,
+        from: fieldChange.from as number | null,
+        to: fieldChange.to as number | null,
+        percentChange: fieldChange.percentChange,
+        thresholdPercent: threshold,
+        snapshotId: diff.toSnapshotId,
+        detectedAt: diff.to,
+      }];
+    });
+  });
+}
+
+async function raiseAlerts(alerts: OfferAlert[]) {
+  if (alerts.length === 0) return;
+
+  await updateCollection<OfferAlert, void>(ALERTS_COLLECTION, (records) => ({
+    records: [...records, ...alerts].slice(-MAX_ALERTS),
+    result: undefined,
+  }));
+
+  for (const alert of alerts) {
+    console.warn({ type: "offer_change_alert", ...alert });
+    await publishWebhookEventSafely("offer.alert", { alert });
+  }
+}
+
+/**
+ * Stores the feed a network served to a country/ASN/device profile unless the
+ * latest snapshot for that profile is younger than the snapshot interval,
+ * then raises alerts for tracked offers whose payout or EPC moved too far.
+ */
+export async function recordOfferSnapshot(
+  query: OfferQuery,
+  network: string,
+  offers: Offer[]
+): Promise<OfferSnapshot | null> {
+  const profile: OfferProfile = {
+    network,
+    country: query.country,
+    asn: query.geo?.asn ?? null,
+    formFactor: query.device.formFactor,
+    os: query.device.os,
+  };
+  const takenAt = new Date();
+
+  const recorded = await updateCollection<OfferSnapshot, { snapshot: OfferSnapshot; previous: OfferSnapshot | null } | null>(
+    profileCollection(profile),
+    (snapshots) => {
+      const previous = snapshots[snapshots.length - 1] ?? null;
+      if (previous && takenAt.getTime() - Date.parse(previous.takenAt) < SNAPSHOT_INTERVAL_MS) {
+        return { result: null };
+      }
+
+      const snapshot: OfferSnapshot = {
+        id: randomUUID(),
+        profile,
+        takenAt: takenAt.toISOString(),
+        offers: offers.map(toSnapshotOffer),
+      };
+      return { records: [...snapshots, snapshot].slice(-MAX_SNAPSHOTS), result: { snapshot, previous } };
+    }
+  );
+
+  if (!recorded) return null;
+  if (recorded.previous) {
+    await raiseAlerts(findAlerts(diffSnapshots(recorded.previous, recorded.snapshot), profile));
+  }
+  return recorded.snapshot;
+}
+
+export interface OfferHistoryProfile {
+  profile: OfferProfile;
+  snapshots: number;
+  latestAt: string;
+}
+
+export async function listOfferHistoryProfiles(): Promise<OfferHistoryProfile[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(DATA_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const profiles: OfferHistoryProfile[] = [];
+  for (const file of files) {
+    if (!file.startsWith(SNAPSHOT_COLLECTION_PREFIX) || !file.endsWith(".json")) continue;
+    const snapshots = await readCollection<OfferSnapshot>(file.slice(0, -".json".length));
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest) continue;
+    const profile = {
+      ...latest.profile,
+      network: latest.profile.network ?? DEFAULT_NETWORK,
+      asn: latest.profile.asn ?? null,
+    };
+    profiles.push({ profile, snapshots: snapshots.length, latestAt: latest.takenAt });
+  }
+  return profiles.sort((a, b) => b.latestAt.localeCompare(a.latestAt));
+}
+
+export function listOfferSnapshots(profile: OfferProfile): Promise<OfferSnapshot[]> {
+  return readCollection<OfferSnapshot>(profileCollection(profile));
+}
+
+export function listOfferAlerts(): Promise<OfferAlert[]> {
+  return readCollection<OfferAlert>(ALERTS_COLLECTION);
+}
+
+export class OfferHistoryQueryError extends Error {
+  readonly param: string;
+
+  constructor(param: string, message: string) {
+    super(message);
+    this.name = "OfferHistoryQueryError";
+    this.param = param;
+  }
+}
+
+export interface OfferHistoryParams {
+  /** Null lists the profiles that have history instead. */
+  profile: OfferProfile | null;
+  from: Date | null;
+  to: Date | null;
+  offerId: number | null;
+}
+
+function parseTimestamp(value: string | null, param: string): Date | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new OfferHistoryQueryError(param, `${param} must be an ISO 8601 timestamp`);
+  }
+  return parsed;
+}
+
+export function parseOfferHistoryParams(searchParams: URLSearchParams): OfferHistoryParams {
+  const rawCountry = searchParams.get("country");
+  const rawFormFactor = searchParams.get("formFactor");
+  const rawOs = searchParams.get("os");
+
+  let profile: OfferProfile | null = null;
+  if (rawCountry || rawFormFactor || rawOs) {
+    const country = rawCountry?.trim().toUpperCase() ?? "";
+    if (country !== "ALL" && !/^[A-Z]{2}$/.test(country)) {
+      throw new OfferHistoryQueryError("country", "country must be a two-letter country code or ALL");
+    }
+    const formFactor = parseFormFactor(rawFormFactor);
+    if (!formFactor) {
+      throw new OfferHistoryQueryError("formFactor", "formFactor must be mobile, tablet or desktop");
+    }
+    // Unrecognised systems are snapshotted as "other", which the device parser never returns.
+    const os = rawOs?.toLowerCase() === "other" ? "other" : parseOperatingSystem(rawOs);
+    if (!os) {
+      throw new OfferHistoryQueryError("os", "os must be android, ios, windows, macos, linux, chromeos or other");
+    }
+    const network = searchParams.get("network")?.trim().toLowerCase() || DEFAULT_NETWORK;
+    if (!/^[a-z0-9-]+$/.test(network)) {
+      throw new OfferHistoryQueryError("network", "network must be a provider id such as ogads");
+    }
+    const rawAsn = searchParams.get("asn")?.trim().replace(/^AS/i, "");
+    if (rawAsn && !/^[1-9]\d*$/.test(rawAsn)) {
+      throw new OfferHistoryQueryError("asn", "asn must be an autonomous system number such as 15169 or AS15169");
+    }
+    const asn = rawAsn ? Number.parseInt(rawAsn, 10) : null;
+    profile = { network, country: country === "ALL" ? null : country, asn, formFactor, os };
+  }
+
+  const from = parseTimestamp(searchParams.get("from"), "from");
+  const to = parseTimestamp(searchParams.get("to"), "to");
+  if (from && to && from >= to) {
+    throw new OfferHistoryQueryError("from", "from must be before to");
+  }
+
+  const rawOfferId = searchParams.get("offerId");
+  if (rawOfferId && !/^[1-9]\d*$/.test(rawOfferId)) {
+    throw new OfferHistoryQueryError("offerId", "offerId must be a positive integer");
+  }
+  const offerId = rawOfferId ? Number.parseInt(rawOfferId, 10) : null;
+
+  return { profile, from, to, offerId };
+}
+
+function narrowDiff(diff: OfferSnapshotDiff, profile: OfferProfile, offerId: number): OfferSnapshotDiff {
+  const key = offerKey(profile.network, offerId);
+  const matches = (offer: SnapshotOffer) => offerKey(offer.network || profile.network, offer.id) === key;
+  return {
+    ...diff,
+    added: diff.added.filter(matches),
+    removed: diff.removed.filter(matches),
+    changed: diff.changed.filter((change) => offerKey(change.network, change.offerId) === key),
+  };
+}
+
+export interface OfferHistory {
+  profile: OfferProfile;
+  snapshots: { id: string; takenAt: string; offerCount: number }[];
+  /** Changes between consecutive snapshots in the range; unchanged pairs are omitted. */
+  diffs: OfferSnapshotDiff[];
+  alerts: OfferAlert[];
+}
+
+export async function getOfferHistory(params: OfferHistoryParams & { profile: OfferProfile }): Promise<OfferHistory> {
+  const { profile, from, to, offerId } = params;
+  const inRange = (timestamp: string) => {
+    const time = Date.parse(timestamp);
+    return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+  };
+
+  const snapshots = (await listOfferSnapshots(profile)).filter((snapshot) => inRange(snapshot.takenAt));
+  const diffs: OfferSnapshotDiff[] = [];
+  for (let index = 1; index < snapshots.length; index += 1) {
+    const diff = diffSnapshots(snapshots[index - 1], snapshots[index]);
+    const relevant = offerId === null ? diff : narrowDiff(diff, profile, offerId);
+    if (hasChanges(relevant)) {
+      diffs.push(relevant);
+    }
+  }
+
+  const alerts = (await listOfferAlerts()).filter(
+    (alert) =>
+      profileCollection(alert.profile) === profileCollection(profile) &&
+      inRange(alert.detectedAt) &&
+      (offerId === null || alert.offerId === offerId)
+  );
+
+  return {
+    profile,
+    snapshots: snapshots.map((snapshot) => ({
+      id: snapshot.id,
+      takenAt: snapshot.takenAt,
+      offerCount: snapshot.offers.length,
+    })),
+    diffs,
+    alerts,
+  };
+}
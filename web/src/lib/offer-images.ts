@@ -0,0 +1,242 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import type { Offer } from "@/types/offers";
+import { offerKey } from "@/lib/offer-providers";
+import { DATA_DIR } from "@/lib/store";
+
+const IMAGE_CACHE_DIR = process.env.OFFER_IMAGE_CACHE_DIR ?? path.join(DATA_DIR, "offer-images");
+const PLACEHOLDER_PATH = path.join(process.cwd(), "public", "offer-placeholder.svg");
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const CACHE_TTL_MS = readIntegerEnv(process.env.OFFER_IMAGE_CACHE_TTL_MS, 7 * 24 * 60 * 60 * 1000);
+// Broken sources are not retried until this has passed.
+const FAILURE_TTL_MS = readIntegerEnv(process.env.OFFER_IMAGE_FAILURE_TTL_MS, 10 * 60 * 1000);
+const FETCH_TIMEOUT_MS = readIntegerEnv(process.env.OFFER_IMAGE_TIMEOUT_MS, 5000);
+const MAX_SOURCE_BYTES = readIntegerEnv(process.env.OFFER_IMAGE_MAX_BYTES, 5 * 1024 * 1024);
+const MAX_INPUT_PIXELS = 40_000_000;
+const MAX_REMEMBERED_IMAGES = 5000;
+
+export const OFFER_IMAGE_WIDTHS = [160, 320, 640, 960] as const;
+export type OfferImageWidth = (typeof OFFER_IMAGE_WIDTHS)[number];
+export const DEFAULT_OFFER_IMAGE_WIDTH: OfferImageWidth = 640;
+// Matches the card hero and the placeholder artwork (5:3).
+const ASPECT_RATIO = 3 / 5;
+
+export type OfferImageFormat = "webp" | "jpeg";
+
+// SVG is left out: it can carry scripts and is expensive to rasterise.
+const ACCEPTED_CONTENT_TYPES = new Set(["image/jpeg", "image/png", "image/gif", "image/webp", "image/avif"]);
+
+export type OfferImageFailure = "invalid_url" | "upstream_error" | "content_type" | "too_large" | "undecodable";
+
+export class OfferImageError extends Error {
+  readonly reason: OfferImageFailure;
+
+  constructor(reason: OfferImageFailure, message: string) {
+    super(message);
+    this.name = "OfferImageError";
+    this.reason = reason;
+  }
+}
+
+export interface OfferImage {
+  body: Buffer;
+  contentType: string;
+  cacheStatus: "HIT" | "MISS";
+}
+
+// "<network>:<offer id>" -> upstream picture, filled whenever a feed is mapped. Shared
+// by every copy of this module so the image route sees what the feed routes saw.
+const imageIndex = globalThis as typeof globalThis & { __offerImageIndex?: Map<string, string> };
+const rememberedImages = (imageIndex.__offerImageIndex ??= new Map<string, string>());
+
+export function rememberOfferImages(offers: Pick<Offer, "network" | "id" | "imageUrl">[]) {
+  for (const offer of offers) {
+    if (!offer.imageUrl) continue;
+    const key = offerKey(offer.network, offer.id);
+    rememberedImages.delete(key);
+    rememberedImages.set(key, offer.imageUrl);
+  }
+  // Maps iterate in insertion order, so the first keys are the least recently seen.
+  for (const key of rememberedImages.keys()) {
+    if (rememberedImages.size <= MAX_REMEMBERED_IMAGES) break;
+    rememberedImages.delete(key);
+  }
+}
+
+export function findRememberedOfferImage(network: string, offerId: number): string | null {
+  return rememberedImages.get(offerKey(network, offerId)) ?? null;
+}
+
+export function parseOfferImageWidth(value: string | null): OfferImageWidth | undefined {
+  if (!value) return DEFAULT_OFFER_IMAGE_WIDTH;
+  return OFFER_IMAGE_WIDTHS.find((width) => String(width) === value);
+}
+
+function contentTypeOf(format: OfferImageFormat) {
+  return format === "webp" ? "image/webp" : "image/jpeg";
+}
+
+function render(input: sharp.Sharp, width: OfferImageWidth, format: OfferImageFormat): Promise<Buffer> {
+  const resized = input
+    .rotate()
+    .resize(width, Math.round(width * ASPECT_RATIO), { fit: "cover" });
+  return format === "webp"
+    ? resized.webp({ quality: 80 }).toBuffer()
+    : resized.flatten({ background: "#ffffff" }).jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+}
+
+async function readLimited(response: Response): Promise<Buffer> {
+  const declared = Number.parseInt(response.headers.get("content-length") ?? "", 10);
+  if (Number.isFinite(declared) && declared > MAX_SOURCE_BYTES) {
+    throw new OfferImageError("too_large", `Source image is ${declared} bytes`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_SOURCE_BYTES) {
+      await reader.cancel();
+      throw new OfferImageError("too_large", `Source image exceeds ${MAX_SOURCE_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchSource(sourceUrl: string): Promise<Buffer> {
+  let url: URL;
+  try {
+    url = new URL(sourceUrl);
+  } catch {
+    throw new OfferImageError("invalid_url", "Offer image URL is not valid");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new OfferImageError("invalid_url", `Unsupported image URL protocol ${url.protocol}`);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: Array.from(ACCEPTED_CONTENT_TYPES).join(", "), "User-Agent": "ogads-web-images/1.0" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new OfferImageError("upstream_error", error instanceof Error ? error.message : String(error));
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new OfferImageError("upstream_error", `Image host answered ${response.status}`);
+  }
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? "";
+  if (!ACCEPTED_CONTENT_TYPES.has(contentType)) {
+    await response.body?.cancel();
+    throw new OfferImageError("content_type", `Unsupported image content type "${contentType}"`);
+  }
+  return readLimited(response);
+}
+
+async function readFresh(file: string, ttlMs: number): Promise<Buffer | null> {
+  try {
+    const stats = await fs.stat(file);
+    return Date.now() - stats.mtimeMs < ttlMs ? await fs.readFile(file) : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function writeAtomically(file: string, data: Buffer | string) {
+  await fs.mkdir(IMAGE_CACHE_DIR, { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, data);
+  await fs.rename(tempFile, file);
+}
+
+// Concurrent requests for the same thumbnail share one upstream fetch.
+const inflight = new Map<string, Promise<Buffer>>();
+
+async function renderSource(
+  sourceUrl: string,
+  sourceHash: string,
+  width: OfferImageWidth,
+  format: OfferImageFormat
+): Promise<Buffer> {
+  const failureFile = path.join(IMAGE_CACHE_DIR, `${sourceHash}.failed`);
+  const recentFailure = await readFresh(failureFile, FAILURE_TTL_MS);
+  if (recentFailure) {
+    const { reason, message } = JSON.parse(recentFailure.toString("utf8")) as { reason: OfferImageFailure; message: string };
+    throw new OfferImageError(reason, message);
+  }
+
+  try {
+    const source = await fetchSource(sourceUrl);
+    let body: Buffer;
+    try {
+      body = await render(sharp(source, { limitInputPixels: MAX_INPUT_PIXELS }), width, format);
+    } catch (error) {
+      throw new OfferImageError("undecodable", error instanceof Error ? error.message : String(error));
+    }
+    await writeAtomically(path.join(IMAGE_CACHE_DIR, `${sourceHash}-${width}.${format}`), body);
+    return body;
+  } catch (error) {
+    if (error instanceof OfferImageError) {
+      await writeAtomically(failureFile, JSON.stringify({ reason: error.reason, message: error.message }));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the offer picture as a fixed-size thumbnail, fetching and converting
+ * it once and then serving it from the disk cache. Throws `OfferImageError`
+ * when the source is unusable so callers can fall back to the placeholder.
+ */
+export async function getOfferImage(
+  sourceUrl: string,
+  width: OfferImageWidth,
+  format: OfferImageFormat
+): Promise<OfferImage> {
+  const sourceHash = createHash("sha256").update(sourceUrl).digest("hex");
+  const cacheFile = path.join(IMAGE_CACHE_DIR, `${sourceHash}-${width}.${format}`);
+  const contentType = contentTypeOf(format);
+
+  const cached = await readFresh(cacheFile, CACHE_TTL_MS);
+  if (cached) {
+    return { body: cached, contentType, cacheStatus: "HIT" };
+  }
+
+  let pending = inflight.get(cacheFile);
+  if (!pending) {
+    pending = renderSource(sourceUrl, sourceHash, width, format).finally(() => inflight.delete(cacheFile));
+    inflight.set(cacheFile, pending);
+  }
+  return { body: await pending, contentType, cacheStatus: "MISS" };
+}
+
+const placeholders = new Map<string, Promise<Buffer>>();
+
+/** The placeholder artwork at the same size and format as real thumbnails. */
+export async function getPlaceholderImage(width: OfferImageWidth, format: OfferImageFormat): Promise<OfferImage> {
+  const key = `${width}.${format}`;
+  let pending = placeholders.get(key);
+  if (!pending) {
+    pending = fs.readFile(PLACEHOLDER_PATH).then((svg) => render(sharp(svg), width, format));
+    // A failed render is retried on the next request.
+    pending.catch(() => placeholders.delete(key));
+    placeholders.set(key, pending);
+  }
+  return { body: await pending, contentType: contentTypeOf(format), cacheStatus: "HIT" };
+}
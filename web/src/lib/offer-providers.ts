@@ -0,0 +1,121 @@
+import type { NextRequest } from "next/server";
+import type { Offer } from "@/types/offers";
+import type { ClickRecord } from "@/types/tracking";
+import type { OfferDiagnostic } from "@/lib/ogads-schema";
+import type { PostbackParams } from "@/lib/postbacks";
+
+export const DEFAULT_NETWORK = "ogads";
+
+/**
+ * Offer ids are only unique within a network, so anything stored or
+ * configured per offer is keyed by `<network>:<id>`. Records from before
+ * networks were added have no network and belong to OGAds.
+ */
+export function offerKey(network: string | null | undefined, offerId: number): string {
+  return `${network || DEFAULT_NETWORK}:${offerId}`;
+}
+
+/**
+ * Reads a configured offer reference: `<network>:<id>`, or a bare id, which
+ * means an OGAds offer as in configs written before other networks existed.
+ */
+export function parseOfferKey(value: unknown): string | null {
+  const match = String(value).trim().match(/^(?:([a-z0-9-]+):)?([1-9]\d*)$/i);
+  return match ? offerKey(match[1]?.toLowerCase(), Number.parseInt(match[2], 10)) : null;
+}
+
+export interface ProviderFeedRequest {
+  /** Visitor IP; networks target their feeds by it. */
+  ip: string;
+  userAgent: string;
+}
+
+export interface RawProviderFeed<Raw> {
+  offers: Raw[];
+  diagnostics: OfferDiagnostic[];
+}
+
+/**
+ * One CPA/CPI network. Everything network-specific (feed format, tracking
+ * parameters, postback format and authentication) stays behind this
+ * interface so the wall, tracking and crediting only see `Offer`s.
+ */
+export interface OfferProvider<Raw = unknown> {
+  /** Stored on offers, clicks and conversions, and used in `/api/postback/<network>`. */
+  network: string;
+  label: string;
+  /** Fetches the visitor's feed in the network's own format. */
+  fetchFeed(request: ProviderFeedRequest): Promise<RawProviderFeed<Raw>>;
+  normalizeOffer(raw: Raw): Offer;
+  /** Adds the click id and sub ids the network echoes back in its postback. */
+  buildTrackingUrl(offer: Offer, click: ClickRecord): string;
+  /** Throws a PostbackError when the request did not come from the network. */
+  verifyPostback(request: NextRequest): void;
+  /** Throws a PostbackError when required parameters are missing or malformed. */
+  parsePostback(searchParams: URLSearchParams): PostbackParams;
+}
+
+export class OfferProviderError extends Error {
+  readonly network: string;
+  readonly status: number;
+  /** Transient failures allow serving the network's last good feed. */
+  readonly transient: boolean;
+
+  constructor(network: string, message: string, status: number, transient: boolean) {
+    super(message);
+    this.name = "OfferProviderError";
+    this.network = network;
+    this.status = status;
+    this.transient = transient;
+  }
+}
+
+export async function fetchProviderOffers(
+  provider: OfferProvider,
+  request: ProviderFeedRequest
+): Promise<{ offers: Offer[]; diagnostics: OfferDiagnostic[] }> {
+  const { offers, diagnostics } = await provider.fetchFeed(request);
+  return { offers: offers.map((offer) => provider.normalizeOffer(offer)), diagnostics };
+}
+
+// Networks often carry the same advertiser campaign; names differ in
+// punctuation and casing more than in wording.
+function offerFingerprint(offer: Offer) {
+  const name = offer.name.toLowerCase().replace(/[^a-z0-9]+/g, "");
+  const devices = offer.devices.map((device) => device.toLowerCase()).sort().join(",");
+  return `${name}|${offer.type ?? ""}|${devices}`;
+}
+
+function outranks(candidate: Offer, current: Offer) {
+  if (candidate.payout !== current.payout) return candidate.payout > current.payout;
+  return (candidate.epc ?? 0) > (current.epc ?? 0);
+}
+
+/**
+ * Merges feeds in provider priority order, dropping repeated offers: the same
+ * id within a network, and the same campaign across networks, where the
+ * better-paying copy wins and keeps the position of the first one seen.
+ */
+export function mergeProviderOffers(feeds: Offer[][]): Offer[] {
+  const merged: Offer[] = [];
+  const seenIds = new Set<string>();
+  const byFingerprint = new Map<string, number>();
+
+  for (const offers of feeds) {
+    for (const offer of offers) {
+      const key = offerKey(offer.network, offer.id);
+      if (seenIds.has(key)) continue;
+      seenIds.add(key);
+
+      const fingerprint = offerFingerprint(offer);
+      const existing = byFingerprint.get(fingerprint);
+      if (existing !== undefined && merged[existing].network !== offer.network) {
+        if (outranks(offer, merged[existing])) merged[existing] = offer;
+        continue;
+      }
+      if (existing === undefined) byFingerprint.set(fingerprint, merged.length);
+      merged.push(offer);
+    }
+  }
+  return merged;
+}
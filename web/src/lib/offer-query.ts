@@ -0,0 +1,185 @@
+import type { Offer } from "@/types/offers";
+import {
+  CONFIGURED_RANKING_WEIGHTS,
+  DEFAULT_RANKING_STRATEGY,
+  parseRankingStrategy,
+  parseRankingWeights,
+  RANKING_STRATEGIES,
+  RankingStrategy,
+  RankingWeights,
+} from "@/lib/ranking";
+
+const MAX_LIMIT = 200;
+
+const OFFER_FIELDS: (keyof Offer)[] = [
+  "id",
+  "network",
+  "name",
+  "shortName",
+  "description",
+  "creativeText",
+  "imageUrl",
+  "payout",
+  "countryCodes",
+  "devices",
+  "trackingUrl",
+  "epc",
+  "cvr",
+  "boosted",
+  "type",
+  "payoutLabel",
+];
+
+export interface OfferListParams {
+  minPayout: number | null;
+  maxPayout: number | null;
+  types: string[];
+  search: string | null;
+  sort: RankingStrategy;
+  weights: RankingWeights;
+  /** Null returns every remaining offer. */
+  limit: number | null;
+  offset: number;
+  fields: (keyof Offer)[] | null;
+}
+
+export interface OfferPage {
+  offers: Partial<Offer>[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export class OfferQueryError extends Error {
+  readonly param: string;
+
+  constructor(param: string, message: string) {
+    super(message);
+    this.name = "OfferQueryError";
+    this.param = param;
+  }
+}
+
+function normalizeType(value: string) {
+  return value.replace(/[^A-Z]/gi, "").toUpperCase();
+}
+
+function parseAmount(searchParams: URLSearchParams, name: string): number | null {
+  const raw = searchParams.get(name);
+  if (raw === null || raw.trim() === "") return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new OfferQueryError(name, `${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`o:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const match = decoded.match(/^o:(\d+)$/);
+  if (!match) {
+    throw new OfferQueryError("cursor", "cursor is not valid");
+  }
+  return Number.parseInt(match[1], 10);
+}
+
+export function parseOfferListParams(searchParams: URLSearchParams): OfferListParams {
+  const minPayout = parseAmount(searchParams, "minPayout");
+  const maxPayout = parseAmount(searchParams, "maxPayout");
+  if (minPayout !== null && maxPayout !== null && minPayout > maxPayout) {
+    throw new OfferQueryError("minPayout", "minPayout cannot be greater than maxPayout");
+  }
+
+  const types = (searchParams.get("type") ?? "")
+    .split(",")
+    .map(normalizeType)
+    .filter(Boolean);
+
+  const search = searchParams.get("q")?.trim() || null;
+  if (search && search.length > 100) {
+    throw new OfferQueryError("q", "q must be at most 100 characters");
+  }
+
+  const sortParam = searchParams.get("sort");
+  const sort = sortParam ? parseRankingStrategy(sortParam) : DEFAULT_RANKING_STRATEGY;
+  if (!sort) {
+    throw new OfferQueryError("sort", `sort must be one of: ${RANKING_STRATEGIES.join(", ")}`);
+  }
+
+  let limit: number | null = null;
+  const rawLimit = searchParams.get("limit");
+  if (rawLimit !== null) {
+    if (!/^\d+$/.test(rawLimit) || Number(rawLimit) < 1 || Number(rawLimit) > MAX_LIMIT) {
+      throw new OfferQueryError("limit", `limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    limit = Number(rawLimit);
+  }
+
+  const cursor = searchParams.get("cursor");
+  const offset = cursor ? decodeCursor(cursor) : 0;
+
+  let fields: (keyof Offer)[] | null = null;
+  const rawFields = searchParams.get("fields");
+  if (rawFields) {
+    const requested = rawFields.split(",").map((field) => field.trim()).filter(Boolean);
+    const unknown = requested.filter((field) => !OFFER_FIELDS.includes(field as keyof Offer));
+    if (unknown.length > 0) {
+      throw new OfferQueryError("fields", `Unknown fields: ${unknown.join(", ")}`);
+    }
+    // Ids are only unique within a network, so both are always returned for
+    // consumers to key and track offers.
+    fields = Array.from(new Set(["id", "network", ...requested])) as (keyof Offer)[];
+  }
+
+  return {
+    minPayout,
+    maxPayout,
+    types,
+    search,
+    sort,
+    weights: parseRankingWeights(searchParams.get("weights"), CONFIGURED_RANKING_WEIGHTS),
+    limit,
+    offset,
+    fields,
+  };
+}
+
+export function filterOffers(offers: Offer[], params: OfferListParams): Offer[] {
+  const needle = params.search?.toLowerCase() ?? null;
+
+  return offers.filter((offer) => {
+    if (params.minPayout !== null && offer.payout < params.minPayout) return false;
+    if (params.maxPayout !== null && offer.payout > params.maxPayout) return false;
+
+    if (params.types.length > 0) {
+      const offerType = offer.type ? normalizeType(offer.type) : "";
+      if (!params.types.some((type) => offerType.includes(type))) return false;
+    }
+
+    if (needle) {
+      const haystack = [offer.name, offer.shortName, offer.description, offer.creativeText]
+        .join("\n")
+        .toLowerCase();
+      if (!haystack.includes(needle)) return false;
+    }
+
+    return true;
+  });
+}
+
+export function paginateOffers(offers: Offer[], params: OfferListParams): OfferPage {
+  const end = params.limit === null ? offers.length : params.offset + params.limit;
+  const page = offers.slice(params.offset, end);
+  const fields = params.fields;
+
+  return {
+    offers: fields
+      ? page.map((offer) => Object.fromEntries(fields.map((field) => [field, offer[field]])) as Partial<Offer>)
+      : page,
+    total: offers.length,
+    nextCursor: end < offers.length ? encodeCursor(end) : null,
+  };
+}
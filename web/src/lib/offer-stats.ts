@@ -0,0 +1,92 @@
+import { listClicks } from "@/lib/clicks";
+import { DEFAULT_NETWORK, offerKey } from "@/lib/offer-providers";
+import { listConversions } from "@/lib/postbacks";
+
+export interface OfferStats {
+  offerId: number;
+  network: string;
+  offerName: string | null;
+  clicks: number;
+  conversions: number;
+  reversals: number;
+  /** Conversions held for fraud review; not counted in conversions or revenue until approved. */
+  held: number;
+  /** Held conversions an admin rejected. */
+  rejected: number;
+  /** Approved payout in USD. */
+  revenueUsd: number;
+  /** Approved conversions per click, as a percentage like OGAds' `cvr`. */
+  cvr: number | null;
+  /** Revenue per click measured from our own clicks and postbacks. */
+  epc: number | null;
+  /** Average OGAds-reported EPC captured at click time. */
+  reportedEpc: number | null;
+}
+
+export async function getOfferStats(): Promise<OfferStats[]> {
+  const [clicks, conversions] = await Promise.all([listClicks(), listConversions()]);
+  const stats = new Map<string, OfferStats & { reportedEpcSum: number; reportedEpcCount: number }>();
+
+  const entryFor = (network: string | undefined, offerId: number) => {
+    const key = offerKey(network, offerId);
+    let entry = stats.get(key);
+    if (!entry) {
+      entry = {
+        offerId,
+        network: network || DEFAULT_NETWORK,
+        offerName: null,
+        clicks: 0,
+        conversions: 0,
+        reversals: 0,
+        held: 0,
+        rejected: 0,
+        revenueUsd: 0,
+        cvr: null,
+        epc: null,
+        reportedEpc: null,
+        reportedEpcSum: 0,
+        reportedEpcCount: 0,
+      };
+      stats.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const click of clicks) {
+    const entry = entryFor(click.network, click.offerId);
+    entry.clicks += 1;
+    if (click.offerName) entry.offerName = click.offerName;
+    if (typeof click.reportedEpc === "number") {
+      entry.reportedEpcSum += click.reportedEpc;
+      entry.reportedEpcCount += 1;
+    }
+  }
+
+  for (const conversion of conversions) {
+    const entry = entryFor(conversion.network, conversion.offerId);
+    switch (conversion.status) {
+      case "approved":
+        entry.conversions += 1;
+        entry.revenueUsd += conversion.payoutUsd;
+        break;
+      case "held":
+        entry.held += 1;
+        break;
+      case "rejected":
+        entry.rejected += 1;
+        break;
+      case "reversed":
+        entry.reversals += 1;
+        break;
+    }
+  }
+
+  return Array.from(stats.values())
+    .map(({ reportedEpcSum, reportedEpcCount, ...entry }) => ({
+      ...entry,
+      cvr: entry.clicks > 0 ? (entry.conversions / entry.clicks) * 100 : null,
+      epc: entry.clicks > 0 ? entry.revenueUsd / entry.clicks : null,
+      reportedEpc: reportedEpcCount > 0 ? reportedEpcSum / reportedEpcCount : null,
+    }))
+    .sort((a, b) => b.revenueUsd - a.revenueUsd || b.clicks - a.clicks);
+}
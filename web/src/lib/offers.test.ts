@@ -0,0 +1,79 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64)";
+
+// A stand-in for the Offer API that targets its feed by the requested IP.
+let server: Server;
+const requestedIps: string[] = [];
+let offers: typeof import("@/lib/offers");
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const ip = new URL(request.url ?? "", "http://localhost").searchParams.get("ip") ?? "";
+    requestedIps.push(ip);
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({
+        success: true,
+        offers: [
+          {
+            offerid: 30000 + requestedIps.length,
+            name: `Offer for ${ip}`,
+            name_short: "Offer",
+            description: "",
+            adcopy: "",
+            picture: "https://cdn.example/offer.png",
+            payout: "0.50",
+            country: "",
+            device: "Desktop",
+            link: "https://track.example/aff_c",
+            epc: "0.10",
+          },
+        ],
+      })
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  vi.stubEnv("OGADS_API_KEY", "stub-key");
+  vi.stubEnv("OGADS_API_URL", `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v2`);
+  vi.stubEnv("GEOIP_DB_PATH", "");
+  vi.resetModules();
+  offers = await import("@/lib/offers");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function feedFor(clientIp: string) {
+  return offers.getOfferFeed(await offers.buildOfferQuery({ clientIp, userAgent: USER_AGENT }));
+}
+
+describe("getOfferFeed without geo data", () => {
+  it("does not share a cached feed between visitors on different networks", async () => {
+    const first = await feedFor("203.0.113.7");
+    const second = await feedFor("198.51.100.7");
+
+    expect(first.cacheKey).not.toBe(second.cacheKey);
+    expect(second.cacheStatus).toBe("MISS");
+    expect(second.offers[0].name).toBe("Offer for 198.51.100.7");
+    expect(requestedIps).toEqual(["203.0.113.7", "198.51.100.7"]);
+  });
+
+  it("shares the feed within a /24 or /48", async () => {
+    const v4 = await feedFor("203.0.113.99");
+    expect(v4.cacheStatus).toBe("HIT");
+    expect(v4.offers[0].name).toBe("Offer for 203.0.113.7");
+
+    const v6 = await feedFor("2001:db8:1:2::1");
+    const sameSite = await feedFor("2001:db8:1:ffff::9");
+    const otherSite = await feedFor("2001:db8:2::1");
+    expect(v6.cacheKey).toContain("2001:db8:1::/48");
+    expect(sameSite.cacheKey).toBe(v6.cacheKey);
+    expect(otherSite.cacheKey).not.toBe(v6.cacheKey);
+  });
+});
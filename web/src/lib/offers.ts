@@ -0,0 +1,412 @@
+import type { NextRequest } from "next/server";
+import type { Offer } from "@/types/offers";
+import { CacheStatus, CacheStore, createFileCacheStore, createMemoryCacheStore, createSwrCache } from "@/lib/cache";
+import { DeviceProfile, parseFormFactor, parseOperatingSystem, parseUserAgent } from "@/lib/device";
+import { GeoLocation, getGeoResolver } from "@/lib/geo";
+import { getIpNetworkPrefix } from "@/lib/ip-range";
+import { recordOfferSnapshot } from "@/lib/offer-history";
+import { rememberOfferImages } from "@/lib/offer-images";
+import {
+  DEFAULT_NETWORK,
+  fetchProviderOffers,
+  mergeProviderOffers,
+  OfferProvider,
+  OfferProviderError,
+} from "@/lib/offer-providers";
+import { ogadsProvider } from "@/lib/ogads-provider";
+import { OfferDiagnostic } from "@/lib/ogads-schema";
+import { getClientIp, RequestHeadersSource } from "@/lib/request";
+import { DATA_DIR } from "@/lib/store";
+
+// Lets local development pass `?ip=` because loopback requests carry no public address.
+const ALLOW_CLIENT_IP_OVERRIDE = process.env.ALLOW_CLIENT_IP_OVERRIDE === "true";
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const CACHE_TTL_MS = readIntegerEnv(process.env.OFFER_CACHE_TTL_MS, 10 * 60 * 1000); // 10 minutes per OGAds best practice
+const CACHE_STALE_MS = readIntegerEnv(process.env.OFFER_CACHE_STALE_MS, 5 * 60 * 1000);
+const CACHE_MAX_ENTRIES = readIntegerEnv(process.env.OFFER_CACHE_MAX_ENTRIES, 500);
+// Served when a network is failing (e.g. the circuit is open) after the regular cache gave up on a key.
+const FALLBACK_MAX_AGE_MS = readIntegerEnv(process.env.OFFER_FALLBACK_MAX_AGE_MS, 24 * 60 * 60 * 1000);
+
+export interface OfferQuery {
+  clientIp: string | null;
+  userAgent: string;
+  country: string | null;
+  geo: GeoLocation | null;
+  device: DeviceProfile;
+}
+
+interface CachedFeed {
+  offers: Offer[];
+  diagnostics: OfferDiagnostic[];
+}
+
+export type FeedCacheStatus = CacheStatus | "FALLBACK";
+
+export interface ProviderFeedStatus {
+  network: string;
+  cacheKey: string;
+  /** Null when the network failed and was left out of the feed. */
+  cacheStatus: FeedCacheStatus | null;
+  cacheAgeMs: number;
+  error: string | null;
+}
+
+export interface OfferFeedResult extends CachedFeed {
+  cacheKey: string;
+  /** The least fresh status among the merged networks. */
+  cacheStatus: FeedCacheStatus;
+  cacheAgeMs: number;
+  providers: ProviderFeedStatus[];
+}
+
+export class OfferFeedError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "OfferFeedError";
+    this.status = status;
+  }
+}
+
+function createOfferCacheStore(): CacheStore<CachedFeed> {
+  if (process.env.OFFER_CACHE_BACKEND === "file") {
+    return createFileCacheStore(process.env.OFFER_CACHE_DIR ?? `${DATA_DIR}/offer-cache`);
+  }
+  return createMemoryCacheStore(CACHE_MAX_ENTRIES);
+}
+
+const offerCache = createSwrCache<CachedFeed>({
+  store: createOfferCacheStore(),
+  ttlMs: CACHE_TTL_MS,
+  staleMs: CACHE_STALE_MS,
+});
+
+const lastGoodFeeds = createMemoryCacheStore<CachedFeed>(CACHE_MAX_ENTRIES);
+
+const PROVIDERS: OfferProvider[] = [ogadsProvider];
+
+// Comma-separated networks merged into the wall, in priority order.
+const ENABLED_NETWORKS = (process.env.OFFER_PROVIDERS ?? DEFAULT_NETWORK)
+  .split(",")
+  .map((network) => network.trim().toLowerCase())
+  .filter(Boolean);
+
+for (const network of ENABLED_NETWORKS) {
+  if (!PROVIDERS.some((provider) => provider.network === network)) {
+    console.warn(`Ignoring unknown offer provider "${network}" in OFFER_PROVIDERS`);
+  }
+}
+
+export function findProvider(network: string): OfferProvider | null {
+  return PROVIDERS.find((provider) => provider.network === network) ?? null;
+}
+
+export function getEnabledProviders(): OfferProvider[] {
+  return ENABLED_NETWORKS.flatMap((network) => findProvider(network) ?? []);
+}
+
+function normalizeDeviceTokens(raw: string[]): string[] {
+  return raw.map((value) => value.toLowerCase());
+}
+
+export function matchesDeviceProfile(offer: Offer, device: DeviceProfile): boolean {
+  if (offer.devices.length === 0) {
+    return true;
+  }
+
+  const tokens = normalizeDeviceTokens(offer.devices);
+
+  const includesKeyword = (keywords: string[]) =>
+    tokens.some((token) => keywords.some((keyword) => token.includes(keyword)));
+
+  if (device.formFactor === "desktop") {
+    if (includesKeyword(["desktop", "pc", "computer"])) {
+      return true;
+    }
+    if (device.os === "windows") return includesKeyword(["windows"]);
+    if (device.os === "macos") return includesKeyword(["mac", "macos", "osx"]);
+    return false;
+  }
+
+  const genericKeywords = device.formFactor === "tablet"
+    ? ["mobile", "tablet"]
+    : ["mobile", "smartphone"];
+
+  if (device.os === "android") {
+    if (includesKeyword(["android"])) {
+      return true;
+    }
+    return includesKeyword(genericKeywords) && !includesKeyword(["iphone", "ios", "ipad"]);
+  }
+
+  if (device.os === "ios") {
+    // iPhone apps run on iPads, but iPad-only apps do not run on iPhones.
+    const iosKeywords = device.formFactor === "tablet"
+      ? ["iphone", "ios", "ipad"]
+      : ["iphone", "ios", "ipod"];
+    if (includesKeyword(iosKeywords)) {
+      return true;
+    }
+    return includesKeyword(genericKeywords) && !includesKeyword(["android"]);
+  }
+
+  return includesKeyword([...genericKeywords, "android", "iphone", "ios"]);
+}
+
+export function matchesOfferType(offer: Offer, device: DeviceProfile): boolean {
+  if (!offer.type) {
+    return true;
+  }
+
+  const normalized = offer.type.replace(/[^A-Z]/gi, "").toUpperCase();
+  const isCpi = normalized.includes("CPI") || normalized.includes("INSTALL");
+  const isCpa = normalized.includes("CPA") || normalized.includes("CPL") || normalized.includes("CPS");
+
+  if (device.formFactor === "desktop") {
+    if (isCpa) return true;
+    if (isCpi) return false;
+    return true;
+  }
+
+  if (isCpi) return true;
+  if (isCpa) return false;
+  return true;
+}
+
+// Bumped when mapped offers change shape (v2: sanitized descriptions, v3:
+// source network) so feeds cached on disk by an older build are not served.
+const OFFER_CACHE_VERSION = 3;
+
+// Networks target the feed by IP, so visitors are bucketed by their resolved
+// country and ASN rather than by anything the client claims. Without geo data
+// (no GeoIP database, or an address it does not know) the visitor's /24 or /48
+// stands in, so one visitor's IP-targeted feed is never served to everyone.
+function getCacheKey(query: OfferQuery) {
+  const unresolved = !query.country && (query.geo?.asn ?? null) === null;
+  const network = unresolved && query.clientIp ? getIpNetworkPrefix(query.clientIp) : null;
+  return [
+    `v${OFFER_CACHE_VERSION}`,
+    query.country ?? "ALL",
+    network ?? query.geo?.asn ?? "-",
+    query.device.formFactor,
+    query.device.os,
+  ].join("|");
+}
+
+export interface OfferQueryInput {
+  clientIp: string | null;
+  userAgent: string;
+  /** Refinements the client can detect but the user agent hides (e.g. iPadOS desktop mode). */
+  formFactor?: string | null;
+  os?: string | null;
+}
+
+export async function buildOfferQuery(input: OfferQueryInput): Promise<OfferQuery> {
+  const { clientIp, userAgent } = input;
+  const detected = parseUserAgent(userAgent);
+  const device: DeviceProfile = {
+    ...detected,
+    formFactor: parseFormFactor(input.formFactor ?? null) ?? detected.formFactor,
+    os: parseOperatingSystem(input.os ?? null) ?? detected.os,
+  };
+  const geo = clientIp ? await getGeoResolver().lookup(clientIp) : null;
+
+  return { clientIp, userAgent, country: geo?.countryCode ?? null, geo, device };
+}
+
+export function resolveOfferQuery(request: NextRequest): Promise<OfferQuery> {
+  return resolveOfferQueryFrom(request, request.nextUrl.searchParams);
+}
+
+/** Builds the visitor query from request headers, e.g. in a server component via `headers()`. */
+export async function resolveOfferQueryFrom(
+  request: RequestHeadersSource,
+  searchParams: URLSearchParams
+): Promise<OfferQuery> {
+  const userAgentParam = searchParams.get("userAgent") ?? undefined;
+  const userAgentHeader = request.headers.get("user-agent") || undefined;
+  const ipOverride = ALLOW_CLIENT_IP_OVERRIDE ? searchParams.get("ip") : null;
+
+  return buildOfferQuery({
+    clientIp: ipOverride || getClientIp(request),
+    userAgent: userAgentParam || userAgentHeader || "OgadsNextApp/1.0",
+    formFactor: searchParams.get("formFactor"),
+    os: searchParams.get("os"),
+  });
+}
+
+export type OfferFilterReason = "country" | "type" | "device";
+
+export function getOfferFilterReasons(offer: Offer, query: Pick<OfferQuery, "country" | "device">): OfferFilterReason[] {
+  const reasons: OfferFilterReason[] = [];
+  if (query.country && offer.countryCodes.length > 0 && !offer.countryCodes.includes(query.country)) {
+    reasons.push("country");
+  }
+  if (!matchesOfferType(offer, query.device)) {
+    reasons.push("type");
+  }
+  if (!matchesDeviceProfile(offer, query.device)) {
+    reasons.push("device");
+  }
+  return reasons;
+}
+
+
+async function fetchMappedOffers(provider: OfferProvider, query: OfferQuery & { clientIp: string }): Promise<CachedFeed> {
+  const feed = await fetchProviderOffers(provider, { ip: query.clientIp, userAgent: query.userAgent });
+  rememberOfferImages(feed.offers);
+  return feed;
+}
+
+async function fetchOffers(provider: OfferProvider, query: OfferQuery & { clientIp: string }): Promise<CachedFeed> {
+  const { offers, diagnostics } = await fetchMappedOffers(provider, query);
+  return {
+    offers: offers.filter((offer) => getOfferFilterReasons(offer, query).length === 0),
+    diagnostics,
+  };
+}
+
+function requireFeedProviders(query: OfferQuery): { providers: OfferProvider[]; clientIp: string } {
+  const providers = getEnabledProviders();
+  if (providers.length === 0) {
+    throw new OfferFeedError("No offer providers are enabled; check OFFER_PROVIDERS", 500);
+  }
+
+  if (!query.clientIp) {
+    throw new OfferFeedError("Unable to determine client IP address", 400);
+  }
+
+  return { providers, clientIp: query.clientIp };
+}
+
+export interface InspectedOffer {
+  offer: Offer;
+  /** Empty when the offer passes the country, type and device filters. */
+  excludedBy: OfferFilterReason[];
+}
+
+export interface OfferFeedInspection {
+  offers: InspectedOffer[];
+  diagnostics: OfferDiagnostic[];
+}
+
+/** Fetches every enabled network past the cache and explains each filter decision. */
+export async function inspectOfferFeed(query: OfferQuery): Promise<OfferFeedInspection> {
+  const { providers, clientIp } = requireFeedProviders(query);
+
+  const inspection: OfferFeedInspection = { offers: [], diagnostics: [] };
+  for (const provider of providers) {
+    try {
+      const { offers, diagnostics } = await fetchMappedOffers(provider, { ...query, clientIp });
+      inspection.offers.push(...offers.map((offer) => ({ offer, excludedBy: getOfferFilterReasons(offer, query) })));
+      inspection.diagnostics.push(...diagnostics);
+    } catch (error) {
+      if (error instanceof OfferProviderError) {
+        throw new OfferFeedError(`${provider.label}: ${error.message}`, error.status);
+      }
+      throw error;
+    }
+  }
+  return inspection;
+}
+
+interface ProviderFeedResult extends CachedFeed {
+  cacheKey: string;
+  cacheStatus: FeedCacheStatus;
+  cacheAgeMs: number;
+}
+
+async function getProviderFeed(
+  provider: OfferProvider,
+  query: OfferQuery & { clientIp: string }
+): Promise<ProviderFeedResult> {
+  const cacheKey = `${getCacheKey(query)}|${provider.network}`;
+  let cached;
+  try {
+    cached = await offerCache.get(cacheKey, async () => {
+      const feed = await fetchOffers(provider, query);
+      const now = Date.now();
+      await lastGoodFeeds.set(cacheKey, {
+        value: feed,
+        storedAt: now,
+        freshUntil: now,
+        staleUntil: now + FALLBACK_MAX_AGE_MS,
+      });
+      recordOfferSnapshot(query, provider.network, feed.offers).catch((snapshotError) => {
+        console.error(`Failed to record offer snapshot for ${cacheKey}`, snapshotError);
+      });
+      return feed;
+    });
+  } catch (error) {
+    if (!(error instanceof OfferProviderError)) {
+      throw error;
+    }
+
+    const fallback = error.transient ? await lastGoodFeeds.get(cacheKey) : null;
+    if (fallback) {
+      console.warn(`Serving last good feed for ${cacheKey}: ${error.message}`);
+      return {
+        ...fallback.value,
+        cacheKey,
+        cacheStatus: "FALLBACK",
+        cacheAgeMs: Date.now() - fallback.storedAt,
+      };
+    }
+    throw new OfferFeedError(error.message, error.status);
+  }
+
+  return {
+    offers: cached.value.offers,
+    diagnostics: cached.value.diagnostics,
+    cacheKey,
+    cacheStatus: cached.status,
+    cacheAgeMs: cached.ageMs,
+  };
+}
+
+const CACHE_STATUS_FRESHNESS: FeedCacheStatus[] = ["MISS", "HIT", "STALE", "FALLBACK"];
+
+/**
+ * Merges the feeds of every enabled network. A failing network is left out
+ * while at least one other network answers; the request only fails when
+ * all of them do.
+ */
+export async function getOfferFeed(query: OfferQuery): Promise<OfferFeedResult> {
+  const { providers, clientIp } = requireFeedProviders(query);
+  const results = await Promise.allSettled(providers.map((provider) => getProviderFeed(provider, { ...query, clientIp })));
+
+  const feeds = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+  if (feeds.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const statuses = results.map((result, index): ProviderFeedStatus => {
+    const network = providers[index].network;
+    if (result.status === "fulfilled") {
+      const { cacheKey, cacheStatus, cacheAgeMs } = result.value;
+      return { network, cacheKey, cacheStatus, cacheAgeMs, error: null };
+    }
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    console.warn(`Leaving ${providers[index].label} out of the offer feed: ${error}`);
+    return { network, cacheKey: `${getCacheKey(query)}|${network}`, cacheStatus: null, cacheAgeMs: 0, error };
+  });
+
+  return {
+    offers: mergeProviderOffers(feeds.map((feed) => feed.offers)),
+    diagnostics: feeds.flatMap((feed) => feed.diagnostics),
+    cacheKey: getCacheKey(query),
+    cacheStatus: feeds.reduce<FeedCacheStatus>(
+      (least, feed) =>
+        CACHE_STATUS_FRESHNESS.indexOf(feed.cacheStatus) > CACHE_STATUS_FRESHNESS.indexOf(least) ? feed.cacheStatus : least,
+      "MISS"
+    ),
+    cacheAgeMs: Math.max(...feeds.map((feed) => feed.cacheAgeMs)),
+    providers: statuses,
+  };
+}
@@ -0,0 +1,252 @@
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  OgadsApiError,
+  OgadsCircuitOpenError,
+  OgadsClient,
+  OgadsClientOptions,
+  OgadsResponseError,
+  OgadsServerError,
+  OgadsTimeoutError,
+} from "@/lib/ogads-client";
+
+interface StubResponse {
+  status: number;
+  body: unknown;
+  delayMs?: number;
+}
+
+const VALID_OFFER = {
+  offerid: 30001,
+  name: "Stub Offer",
+  name_short: "Stub",
+  description: "Try it",
+  adcopy: "Try it now",
+  picture: "https://cdn.example/offer.png",
+  payout: "0.50",
+  country: "US",
+  device: "Desktop",
+  link: "https://track.example/aff_c?offer_id=30001",
+  epc: "0.12",
+};
+
+// A local stand-in for the Offer API: answers queued responses in order and
+// records every request it receives.
+let server: Server;
+let apiUrl: string;
+let queue: StubResponse[] = [];
+let received: IncomingMessage[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    received.push(request);
+    const next = queue.shift() ?? { status: 500, body: { error: "No stub response queued" } };
+    setTimeout(() => {
+      response.writeHead(next.status, { "Content-Type": "application/json" });
+      response.end(typeof next.body === "string" ? next.body : JSON.stringify(next.body));
+    }, next.delayMs ?? 0);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v2`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+afterEach(() => {
+  queue = [];
+  received = [];
+  vi.restoreAllMocks();
+});
+
+function createClient(options: Partial<OgadsClientOptions> = {}) {
+  return new OgadsClient({
+    apiUrl,
+    apiKey: "stub-key",
+    timeoutMs: 1000,
+    maxRetries: 0,
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 5,
+    failureThreshold: 5,
+    cooldownMs: 1000,
+    ...options,
+  });
+}
+
+const REQUEST = { ip: "8.8.8.8", userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64)" };
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("OgadsClient", () => {
+  it("requests the feed for the visitor with the API key", async () => {
+    queue.push({ status: 200, body: { success: true, error: null, offers: [VALID_OFFER] } });
+
+    const { response, diagnostics } = await createClient().fetchOffers({ ...REQUEST, ctype: 1 });
+
+    expect(response.offers).toHaveLength(1);
+    expect(diagnostics).toEqual([]);
+    const url = new URL(received[0].url ?? "", apiUrl);
+    expect(url.searchParams.get("ip")).toBe("8.8.8.8");
+    expect(url.searchParams.get("user_agent")).toBe(REQUEST.userAgent);
+    expect(url.searchParams.get("ctype")).toBe("1");
+    expect(received[0].headers.authorization).toBe("Bearer stub-key");
+  });
+
+  describe("retries", () => {
+    it("retries transient failures with exponential full-jitter backoff", async () => {
+      queue.push(
+        { status: 503, body: {} },
+        { status: 502, body: {} },
+        { status: 200, body: { success: true, offers: [VALID_OFFER] } }
+      );
+      vi.spyOn(Math, "random").mockReturnValue(0.5);
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+
+      const client = createClient({ maxRetries: 2, retryBaseDelayMs: 20, retryMaxDelayMs: 30, timeoutMs: 900 });
+      const { response } = await client.fetchOffers(REQUEST);
+
+      expect(response.offers).toHaveLength(1);
+      expect(received).toHaveLength(3);
+      // Half of min(max, base * 2^attempt): 20 then 30 (capped). Other timers
+      // are the 900ms request timeouts and the HTTP stack's own.
+      const backoffDelays = setTimeoutSpy.mock.calls
+        .map(([, ms]) => ms)
+        .filter((ms): ms is number => typeof ms === "number" && ms > 0 && ms <= 30);
+      expect(backoffDelays).toEqual([10, 15]);
+    });
+
+    it("retries a timeout and then gives up", async () => {
+      queue.push({ status: 200, body: { success: true, offers: [] }, delayMs: 200 });
+      queue.push({ status: 200, body: { success: true, offers: [] }, delayMs: 200 });
+
+      await expect(createClient({ timeoutMs: 50, maxRetries: 1 }).fetchOffers(REQUEST)).rejects.toBeInstanceOf(
+        OgadsTimeoutError
+      );
+      expect(received).toHaveLength(2);
+    });
+
+    it("gives up after maxRetries", async () => {
+      queue.push({ status: 500, body: {} }, { status: 500, body: {} }, { status: 500, body: {} });
+
+      const error = await createClient({ maxRetries: 2 }).fetchOffers(REQUEST).catch((caught) => caught);
+      expect(error).toBeInstanceOf(OgadsServerError);
+      expect(error).toMatchObject({ status: 500, transient: true });
+      expect(received).toHaveLength(3);
+    });
+
+    it("does not retry rejected requests", async () => {
+      queue.push({ status: 401, body: { error: "Invalid API key" } });
+
+      const error = await createClient({ maxRetries: 2 }).fetchOffers(REQUEST).catch((caught) => caught);
+      expect(error).toBeInstanceOf(OgadsApiError);
+      expect(error).toMatchObject({ status: 401, transient: false, message: "Invalid API key" });
+      expect(received).toHaveLength(1);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("opens after consecutive transient failures and short-circuits requests", async () => {
+      queue.push({ status: 503, body: {} }, { status: 503, body: {} });
+      const client = createClient({ failureThreshold: 2, cooldownMs: 60 * 1000 });
+
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsServerError);
+      expect(client.circuitState).toBe("closed");
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsServerError);
+      expect(client.circuitState).toBe("open");
+
+      const error = await client.fetchOffers(REQUEST).catch((caught) => caught);
+      expect(error).toBeInstanceOf(OgadsCircuitOpenError);
+      expect(error).toMatchObject({ status: 503, transient: true });
+      expect(received).toHaveLength(2);
+    });
+
+    it("lets one trial through when half-open and reopens when it fails", async () => {
+      queue.push({ status: 503, body: {} }, { status: 503, body: {} }, { status: 503, body: {} });
+      const client = createClient({ failureThreshold: 1, cooldownMs: 50, maxRetries: 2 });
+
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsServerError);
+      expect(client.circuitState).toBe("open");
+      // A closed circuit retries before counting the failure.
+      expect(received).toHaveLength(3);
+      received = [];
+
+      await sleep(60);
+      expect(client.circuitState).toBe("half-open");
+
+      queue.push({ status: 503, body: {}, delayMs: 30 });
+      const trial = client.fetchOffers(REQUEST);
+      // Only the trial goes upstream; concurrent calls are turned away.
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsCircuitOpenError);
+      await expect(trial).rejects.toBeInstanceOf(OgadsServerError);
+      // A trial is never retried.
+      expect(received).toHaveLength(1);
+      expect(client.circuitState).toBe("open");
+    });
+
+    it("closes again when the half-open trial succeeds", async () => {
+      queue.push({ status: 503, body: {} });
+      const client = createClient({ failureThreshold: 1, cooldownMs: 50 });
+
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsServerError);
+      await sleep(60);
+      expect(client.circuitState).toBe("half-open");
+
+      queue.push({ status: 200, body: { success: true, offers: [VALID_OFFER] } });
+      await expect(client.fetchOffers(REQUEST)).resolves.toMatchObject({ response: { success: true } });
+      expect(client.circuitState).toBe("closed");
+    });
+
+    it("does not count rejected requests towards opening the circuit", async () => {
+      queue.push({ status: 403, body: { error: "Forbidden" } }, { status: 403, body: { error: "Forbidden" } });
+      const client = createClient({ failureThreshold: 1 });
+
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsApiError);
+      await expect(client.fetchOffers(REQUEST)).rejects.toBeInstanceOf(OgadsApiError);
+      expect(client.circuitState).toBe("closed");
+    });
+  });
+
+  describe("schema validation", () => {
+    it.each([
+      ["a body that is not JSON", "<html>Maintenance</html>", "OGAds API returned a body that is not valid JSON"],
+      ["a non-object payload", [VALID_OFFER], "OGAds response must be an object, got array"],
+      ["offers that are not an array", { success: true, offers: "none" }, 'OGAds response "offers" must be an array, got string'],
+    ])("fails on %s without retrying", async (_name, body, message) => {
+      queue.push({ status: 200, body });
+      const client = createClient({ maxRetries: 2, failureThreshold: 1 });
+
+      const error = await client.fetchOffers(REQUEST).catch((caught) => caught);
+      expect(error).toBeInstanceOf(OgadsResponseError);
+      expect(error).toMatchObject({ status: 502, transient: false, message });
+      expect(received).toHaveLength(1);
+      expect(client.circuitState).toBe("closed");
+    });
+
+    it("surfaces success: false as an API error", async () => {
+      queue.push({ status: 200, body: { success: false, error: "No offers for this IP" } });
+
+      const error = await createClient().fetchOffers(REQUEST).catch((caught) => caught);
+      expect(error).toBeInstanceOf(OgadsApiError);
+      expect(error).toMatchObject({ status: 502, message: "No offers for this IP" });
+    });
+
+    it("drops unusable offers and reports coercions", async () => {
+      queue.push({
+        status: 200,
+        body: { success: true, offers: [{ ...VALID_OFFER, payout: 0.5 }, { ...VALID_OFFER, offerid: "x" }] },
+      });
+
+      const { response, diagnostics } = await createClient().fetchOffers(REQUEST);
+      expect(response.offers).toHaveLength(1);
+      expect(response.offers[0].payout).toBe("0.5");
+      expect(diagnostics.map(({ field, action }) => ({ field, action }))).toEqual([
+        { field: "payout", action: "coerced" },
+        { field: "offerid", action: "dropped" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { OffersValidationResult, OgadsSchemaError, validateOffersResponse } from "@/lib/ogads-schema";
+
+export function formatOgadsError(detail: unknown): string {
+  if (!detail) {
+    return "Unknown OGAds API error";
+  }
+
+  if (typeof detail === "string") {
+    return detail;
+  }
+
+  if (Array.isArray(detail)) {
+    return detail.map((item) => formatOgadsError(item)).join(", ");
+  }
+
+  if (typeof detail === "object") {
+    const entries = Object.entries(detail as Record<string, unknown>)
+      .map(([key, value]) => `${key}: ${formatOgadsError(value)}`);
+    if (entries.length > 0) {
+      return entries.join(" | ");
+    }
+  }
+
+  return String(detail);
+}
+
+export class OgadsError extends Error {
+  readonly status: number;
+  /** Transient failures are retried, count against the circuit breaker and allow serving a fallback feed. */
+  readonly transient: boolean;
+
+  constructor(message: string, status: number, transient: boolean) {
+    super(message);
+    this.name = "OgadsError";
+    this.status = status;
+    this.transient = transient;
+  }
+}
+
+/** OGAds answered but rejected the request (`success: false` or a 4xx). */
+export class OgadsApiError extends OgadsError {
+  readonly detail: unknown;
+
+  constructor(detail: unknown, status: number) {
+    super(formatOgadsError(detail), status >= 400 ? status : 502, false);
+    this.name = "OgadsApiError";
+    this.detail = detail;
+  }
+}
+
+export class OgadsServerError extends OgadsError {
+  constructor(status: number) {
+    super(`OGAds API responded with status ${status}`, status, true);
+    this.name = "OgadsServerError";
+  }
+}
+
+export class OgadsTimeoutError extends OgadsError {
+  constructor(timeoutMs: number) {
+    super(`OGAds API did not respond within ${timeoutMs}ms`, 504, true);
+    this.name = "OgadsTimeoutError";
+  }
+}
+
+export class OgadsNetworkError extends OgadsError {
+  constructor(cause: unknown) {
+    super(`Could not reach OGAds API: ${cause instanceof Error ? cause.message : String(cause)}`, 502, true);
+    this.name = "OgadsNetworkError";
+  }
+}
+
+export class OgadsResponseError extends OgadsError {
+  constructor(message: string) {
+    super(message, 502, false);
+    this.name = "OgadsResponseError";
+  }
+}
+
+export class OgadsCircuitOpenError extends OgadsError {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super("OGAds API is temporarily unavailable after repeated failures", 503, true);
+    this.name = "OgadsCircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+export interface OgadsClientOptions {
+  apiUrl: string;
+  apiKey: string;
+  timeoutMs?: number;
+  /** Extra attempts after the first one for transient failures. */
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  /** Consecutive transient failures that open the circuit. */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request is let through. */
+  cooldownMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface OgadsOffersRequest {
+  ip: string;
+  userAgent: string;
+  /** OGAds offer type filter; 0 returns every type. */
+  ctype?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class OgadsClient {
+  private readonly options: Required<Omit<OgadsClientOptions, "fetch">>;
+  private readonly fetchImpl: typeof fetch;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor({ fetch: fetchImpl, ...options }: OgadsClientOptions) {
+    this.options = {
+      timeoutMs: 8000,
+      maxRetries: 2,
+      retryBaseDelayMs: 250,
+      retryMaxDelayMs: 2000,
+      failureThreshold: 5,
+      cooldownMs: 30 * 1000,
+      ...options,
+    };
+    this.fetchImpl = fetchImpl ?? fetch;
+  }
+
+  get circuitState(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? "half-open" : "open";
+  }
+
+  async fetchOffers(request: OgadsOffersRequest): Promise<OffersValidationResult> {
+    const url = new URL(this.options.apiUrl);
+    url.searchParams.set("ip", request.ip);
+    url.searchParams.set("user_agent", request.userAgent);
+    url.searchParams.set("ctype", String(request.ctype ?? 0));
+
+    const payload = await this.execute(() => this.requestJson(url));
+
+    let validation: OffersValidationResult;
+    try {
+      validation = validateOffersResponse(payload);
+    } catch (error) {
+      if (error instanceof OgadsSchemaError) {
+        throw new OgadsResponseError(error.message);
+      }
+      throw error;
+    }
+    if (!validation.response.success) {
+      throw new OgadsApiError(validation.response.error, 502);
+    }
+    return validation;
+  }
+
+  private async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.circuitState;
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new OgadsCircuitOpenError((this.openedAt ?? Date.now()) + this.options.cooldownMs);
+    }
+
+    const isTrial = state === "half-open";
+    this.trialInFlight = isTrial;
+    try {
+      const result = await this.withRetries(operation, isTrial ? 0 : this.options.maxRetries);
+      this.consecutiveFailures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      if (error instanceof OgadsError && error.transient) {
+        this.consecutiveFailures += 1;
+        if (isTrial || this.consecutiveFailures >= this.options.failureThreshold) {
+          this.openedAt = Date.now();
+        }
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  private async withRetries<T>(operation: () => Promise<T>, maxRetries: number): Promise<T> {
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (!(error instanceof OgadsError) || !error.transient || attempt >= maxRetries) {
+          throw error;
+        }
+        // Full jitter keeps instances from retrying in lockstep.
+        const ceiling = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+        await sleep(Math.random() * ceiling);
+      }
+    }
+  }
+
+  private async requestJson(url: URL): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    let response: Response;
+    let rawBody: string;
+    try {
+      response = await this.fetchImpl(url, {
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+        },
+        cache: "no-store",
+        signal: controller.signal,
+      });
+      rawBody = await response.text();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new OgadsTimeoutError(this.options.timeoutMs);
+      }
+      throw new OgadsNetworkError(error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status >= 500) {
+      throw new OgadsServerError(response.status);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      if (!response.ok) {
+        throw new OgadsApiError(`OGAds API responded with status ${response.status}`, response.status);
+      }
+      throw new OgadsResponseError("OGAds API returned a body that is not valid JSON");
+    }
+
+    if (!response.ok) {
+      const detail = typeof payload === "object" && payload !== null && "error" in payload
+        ? (payload as { error: unknown }).error
+        : `OGAds API responded with status ${response.status}`;
+      throw new OgadsApiError(detail, response.status);
+    }
+
+    return payload;
+  }
+}
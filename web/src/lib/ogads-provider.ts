@@ -0,0 +1,123 @@
+import type { Offer } from "@/types/offers";
+import type { RawOgadsOffer } from "@/types/ogads";
+import type { ClickRecord } from "@/types/tracking";
+import { DEFAULT_NETWORK, OfferProvider, OfferProviderError } from "@/lib/offer-providers";
+import { OgadsClient, OgadsError } from "@/lib/ogads-client";
+import { verifyPostbackRequest } from "@/lib/postback-auth";
+import { parsePostbackParams } from "@/lib/postbacks";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+
+const OGADS_API_URL = process.env.OGADS_API_URL ?? "https://lockedapp.org/api/v2";
+const OGADS_API_KEY = process.env.OGADS_API_KEY;
+const TRACKING_APP_ID = process.env.TRACKING_APP_ID ?? "ogads-web";
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+let ogadsClient: OgadsClient | null = null;
+
+function getOgadsClient(apiKey: string): OgadsClient {
+  if (!ogadsClient) {
+    ogadsClient = new OgadsClient({
+      apiUrl: OGADS_API_URL,
+      apiKey,
+      timeoutMs: readIntegerEnv(process.env.OGADS_TIMEOUT_MS, 8000),
+      maxRetries: readIntegerEnv(process.env.OGADS_MAX_RETRIES, 2),
+      failureThreshold: readIntegerEnv(process.env.OGADS_BREAKER_THRESHOLD, 5),
+      cooldownMs: readIntegerEnv(process.env.OGADS_BREAKER_COOLDOWN_MS, 30 * 1000),
+    });
+  }
+  return ogadsClient;
+}
+
+function normalizeCountryString(country?: string): string[] {
+  if (!country) return [];
+  return country
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+export const ogadsProvider: OfferProvider<RawOgadsOffer> = {
+  network: DEFAULT_NETWORK,
+  label: "OGAds",
+
+  async fetchFeed(request) {
+    if (!OGADS_API_KEY) {
+      throw new OfferProviderError(this.network, "OGADS_API_KEY is not configured", 500, false);
+    }
+
+    let validation;
+    try {
+      validation = await getOgadsClient(OGADS_API_KEY).fetchOffers({
+        ip: request.ip,
+        userAgent: request.userAgent,
+        ctype: 0,
+      });
+    } catch (error) {
+      if (error instanceof OgadsError) {
+        throw new OfferProviderError(this.network, error.message, error.status, error.transient);
+      }
+      throw error;
+    }
+
+    const { response, diagnostics } = validation;
+    if (diagnostics.length > 0) {
+      const dropped = diagnostics.filter((diagnostic) => diagnostic.action === "dropped").length;
+      console.warn(
+        `OGAds feed validation: ${dropped} offer(s) dropped, ${diagnostics.length - dropped} field(s) coerced`,
+        diagnostics
+      );
+    }
+    return { offers: response.offers, diagnostics };
+  },
+
+  normalizeOffer(rawOffer) {
+    const payout = Number.parseFloat(rawOffer.payout);
+    const epc = Number.parseFloat(rawOffer.epc);
+    const cvr = Number.parseFloat(rawOffer.cvr ?? "");
+    const type = rawOffer.ctype ? rawOffer.ctype.toUpperCase() : null;
+
+    return {
+      id: rawOffer.offerid,
+      network: this.network,
+      name: rawOffer.name,
+      shortName: rawOffer.name_short || rawOffer.name,
+      description: sanitizeHtml(rawOffer.description),
+      creativeText: sanitizeHtml(rawOffer.adcopy),
+      imageUrl: rawOffer.picture,
+      payout: Number.isFinite(payout) ? payout : 0,
+      countryCodes: normalizeCountryString(rawOffer.country),
+      devices: rawOffer.device
+        .split(",")
+        .map((device) => device.trim())
+        .filter(Boolean),
+      trackingUrl: rawOffer.link,
+      epc: Number.isFinite(epc) ? epc : null,
+      cvr: Number.isFinite(cvr) ? cvr : null,
+      boosted: rawOffer.boosted === true,
+      type,
+      payoutLabel: null,
+    };
+  },
+
+  buildTrackingUrl(offer: Offer, click: ClickRecord) {
+    const url = new URL(offer.trackingUrl);
+    url.searchParams.set("aff_sub", click.id);
+    url.searchParams.set("aff_sub2", click.userId ?? "");
+    url.searchParams.set("aff_sub3", TRACKING_APP_ID);
+    url.searchParams.set("aff_sub4", click.ip ?? "");
+    url.searchParams.set("aff_sub5", String(Date.parse(click.createdAt)));
+    return url.toString();
+  },
+
+  verifyPostback(request) {
+    verifyPostbackRequest(request);
+  },
+
+  parsePostback(searchParams) {
+    return parsePostbackParams(searchParams, this.network);
+  },
+};
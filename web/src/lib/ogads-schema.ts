@@ -0,0 +1,189 @@
+import type { OgadsOffersResponse, RawOgadsOffer } from "@/types/ogads";
+
+export interface OfferDiagnostic {
+  /** Position of the offer in the upstream `offers` array. */
+  index: number;
+  offerId: number | string | null;
+  field: keyof RawOgadsOffer | "offer";
+  action: "dropped" | "coerced";
+  reason: string;
+}
+
+export interface OffersValidationResult {
+  response: OgadsOffersResponse;
+  diagnostics: OfferDiagnostic[];
+}
+
+export class OgadsSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OgadsSchemaError";
+  }
+}
+
+class DroppedOffer extends Error {}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function createOfferReader(raw: Record<string, unknown>, index: number, diagnostics: OfferDiagnostic[]) {
+  const offerId = typeof raw.offerid === "number" || typeof raw.offerid === "string" ? raw.offerid : null;
+
+  const note = (field: OfferDiagnostic["field"], action: OfferDiagnostic["action"], reason: string) => {
+    diagnostics.push({ index, offerId, field, action, reason });
+  };
+
+  const drop = (field: OfferDiagnostic["field"], reason: string): never => {
+    note(field, "dropped", reason);
+    throw new DroppedOffer();
+  };
+
+  // Required or optional text; numbers are stringified, arrays joined.
+  const text = (field: keyof RawOgadsOffer, required: boolean): string => {
+    const value = raw[field];
+    if (typeof value === "string") {
+      if (required && value.trim() === "") drop(field, "empty string");
+      return value;
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+      note(field, "coerced", "number converted to string");
+      return String(value);
+    }
+    if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+      note(field, "coerced", "array joined with commas");
+      return value.join(",");
+    }
+    if (required) {
+      return drop(field, `expected string, got ${describe(value)}`);
+    }
+    if (value !== undefined && value !== null) {
+      note(field, "coerced", `unexpected ${describe(value)} replaced with empty string`);
+    }
+    return "";
+  };
+
+  const numeric = (field: keyof RawOgadsOffer, required: boolean): string => {
+    const value = text(field, required);
+    if (value === "") return value;
+    if (!Number.isFinite(Number.parseFloat(value))) {
+      if (required) drop(field, `"${value}" is not a number`);
+      note(field, "coerced", `"${value}" is not a number; ignored`);
+      return "";
+    }
+    return value;
+  };
+
+  return { note, drop, text, numeric };
+}
+
+function validateOffer(raw: unknown, index: number, diagnostics: OfferDiagnostic[]): RawOgadsOffer | null {
+  if (!isRecord(raw)) {
+    diagnostics.push({
+      index,
+      offerId: null,
+      field: "offer",
+      action: "dropped",
+      reason: `expected object, got ${describe(raw)}`,
+    });
+    return null;
+  }
+
+  const { note, drop, text, numeric } = createOfferReader(raw, index, diagnostics);
+
+  try {
+    let offerid: number;
+    if (typeof raw.offerid === "number" && Number.isInteger(raw.offerid) && raw.offerid > 0) {
+      offerid = raw.offerid;
+    } else if (typeof raw.offerid === "string" && /^\d+$/.test(raw.offerid.trim())) {
+      note("offerid", "coerced", "numeric string converted to number");
+      offerid = Number.parseInt(raw.offerid, 10);
+    } else {
+      return drop("offerid", `expected positive integer, got ${describe(raw.offerid)}`);
+    }
+
+    const link = text("link", true);
+    try {
+      const url = new URL(link);
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        drop("link", `unsupported protocol ${url.protocol}`);
+      }
+    } catch (error) {
+      if (error instanceof DroppedOffer) throw error;
+      drop("link", "not a valid URL");
+    }
+
+    let boosted: boolean | undefined;
+    if (typeof raw.boosted === "boolean") {
+      boosted = raw.boosted;
+    } else if (raw.boosted === 1 || raw.boosted === 0 || raw.boosted === "1" || raw.boosted === "0") {
+      note("boosted", "coerced", "numeric flag converted to boolean");
+      boosted = raw.boosted === 1 || raw.boosted === "1";
+    } else if (raw.boosted !== undefined && raw.boosted !== null) {
+      note("boosted", "coerced", `unexpected ${describe(raw.boosted)} ignored`);
+    }
+
+    const ctype = text("ctype", false);
+    const cvr = numeric("cvr", false);
+
+    return {
+      offerid,
+      name: text("name", true),
+      name_short: text("name_short", false),
+      description: text("description", false),
+      adcopy: text("adcopy", false),
+      picture: text("picture", false),
+      payout: numeric("payout", true),
+      country: text("country", false),
+      device: text("device", false),
+      link,
+      epc: numeric("epc", false),
+      ...(boosted !== undefined ? { boosted } : {}),
+      ...(ctype ? { ctype } : {}),
+      ...(cvr ? { cvr } : {}),
+    };
+  } catch (error) {
+    if (error instanceof DroppedOffer) return null;
+    throw error;
+  }
+}
+
+/**
+ * Checks an OGAds Offer API payload, coercing tolerable variations (numeric
+ * strings, null text fields, array-valued device lists) and dropping offers
+ * that cannot be used. Throws only when the envelope itself is unusable.
+ */
+export function validateOffersResponse(payload: unknown): OffersValidationResult {
+  if (!isRecord(payload)) {
+    throw new OgadsSchemaError(`OGAds response must be an object, got ${describe(payload)}`);
+  }
+
+  const success = payload.success === true || payload.success === 1 || payload.success === "true";
+  const diagnostics: OfferDiagnostic[] = [];
+
+  if (!success) {
+    return {
+      response: { success: false, error: (payload.error ?? null) as string | null, offers: [] },
+      diagnostics,
+    };
+  }
+
+  if (!Array.isArray(payload.offers)) {
+    throw new OgadsSchemaError(`OGAds response "offers" must be an array, got ${describe(payload.offers)}`);
+  }
+
+  const offers = payload.offers
+    .map((raw, index) => validateOffer(raw, index, diagnostics))
+    .filter((offer): offer is RawOgadsOffer => offer !== null);
+
+  return {
+    response: { success: true, error: null, offers },
+    diagnostics,
+  };
+}
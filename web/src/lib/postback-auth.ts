@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+import { findMatchingRange, parseCidrList } from "@/lib/ip-range";
+import { PostbackError } from "@/lib/postbacks";
+import { getSourceIp } from "@/lib/request";
+
+// Comma-separated CIDRs OGAds sends postbacks from. Leave unset to skip the check.
+const OGADS_POSTBACK_IP_RANGES = parseCidrList(process.env.OGADS_POSTBACK_IP_RANGES);
+const POSTBACK_SHARED_SECRET = process.env.POSTBACK_SHARED_SECRET;
+const SIGNATURE_PARAM = "signature";
+// Without either check anyone could post conversions for any user.
+const AUTHENTICATION_CONFIGURED = OGADS_POSTBACK_IP_RANGES.length > 0 || Boolean(POSTBACK_SHARED_SECRET);
+const REQUIRE_AUTHENTICATION = process.env.NODE_ENV === "production";
+
+if (!AUTHENTICATION_CONFIGURED) {
+  console.warn(
+    REQUIRE_AUTHENTICATION
+      ? "Rejecting every postback: set OGADS_POSTBACK_IP_RANGES and/or POSTBACK_SHARED_SECRET"
+      : "Postbacks are not authenticated; set OGADS_POSTBACK_IP_RANGES and/or POSTBACK_SHARED_SECRET before deploying"
+  );
+}
+
+export function signPostbackParams(params: URLSearchParams, secret: string): string {
+  const sortedParams = [...params.entries()]
+    .filter(([key]) => key !== SIGNATURE_PARAM)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+
+  return createHmac("sha256", secret).update(sortedParams).digest("hex");
+}
+
+function signaturesMatch(expected: string, received: string) {
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const receivedBuffer = Buffer.from(received, "hex");
+  return (
+    received.length === expected.length &&
+    receivedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+/**
+ * Throws a PostbackError when the request does not come from an allowlisted
+ * OGAds range or carries a missing/invalid HMAC signature. In production,
+ * postbacks are refused outright until at least one of the checks is set up.
+ */
+export function verifyPostbackRequest(request: NextRequest) {
+  if (!AUTHENTICATION_CONFIGURED && REQUIRE_AUTHENTICATION) {
+    throw new PostbackError("Postback authentication is not configured", "AUTH_NOT_CONFIGURED", 503);
+  }
+
+  const sourceIp = getSourceIp(request);
+
+  if (OGADS_POSTBACK_IP_RANGES.length > 0) {
+    const range = sourceIp ? findMatchingRange(sourceIp, OGADS_POSTBACK_IP_RANGES) : null;
+    if (!range) {
+      const reason = sourceIp ? `Source IP ${sourceIp} is not allowlisted` : "Source IP is unknown";
+      throw new PostbackError(reason, "IP_NOT_ALLOWED", 403);
+    }
+  }
+
+  if (POSTBACK_SHARED_SECRET) {
+    const searchParams = request.nextUrl.searchParams;
+    const received = searchParams.get(SIGNATURE_PARAM)?.trim().toLowerCase();
+    if (!received) {
+      throw new PostbackError("Missing signature", "INVALID_SIGNATURE", 401);
+    }
+
+    const expected = signPostbackParams(searchParams, POSTBACK_SHARED_SECRET);
+    if (!signaturesMatch(expected, received)) {
+      throw new PostbackError("Invalid signature", "INVALID_SIGNATURE", 401);
+    }
+  }
+}
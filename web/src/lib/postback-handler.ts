@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findProvider } from "@/lib/offers";
+import { PostbackError, PostbackErrorCode, processPostback } from "@/lib/postbacks";
+import { getSourceIp } from "@/lib/request";
+
+function errorResponse(error: string, code: PostbackErrorCode, status: number) {
+  return NextResponse.json(
+    { error, code, timestamp: new Date().toISOString() },
+    { status }
+  );
+}
+
+/** Verifies, parses and processes a postback with the given network's provider. */
+export async function handlePostback(request: NextRequest, network: string) {
+  const searchParams = request.nextUrl.searchParams;
+  const sourceIp = getSourceIp(request);
+
+  console.log({
+    type: "postback_received",
+    network,
+    clickId: searchParams.get("click_id") ?? searchParams.get("aff_sub"),
+    offerId: searchParams.get("offer_id"),
+    payout: searchParams.get("payout"),
+    ip: sourceIp,
+    timestamp: new Date().toISOString(),
+  });
+
+  try {
+    const provider = findProvider(network);
+    if (!provider) {
+      throw new PostbackError(`Unknown network ${network}`, "UNKNOWN_NETWORK", 404);
+    }
+    provider.verifyPostback(request);
+    const params = provider.parsePostback(searchParams);
+    const { conversion, ledgerEntry, duplicate } = await processPostback(params);
+
+    if (duplicate) {
+      return NextResponse.json({
+        message: params.chargeback ? "Reversal already processed" : "Conversion already processed",
+        conversionId: conversion.id,
+      });
+    }
+
+    if (params.chargeback) {
+      console.log(`Postback reversed: ${conversion.clickId} -> ${ledgerEntry?.points ?? 0} points`);
+      return NextResponse.json({
+        message: "Conversion reversed",
+        conversionId: conversion.id,
+        points: ledgerEntry?.points ?? 0,
+        userId: conversion.userId,
+      });
+    }
+
+    if (conversion.status === "held") {
+      console.warn({
+        type: "conversion_held",
+        conversionId: conversion.id,
+        score: conversion.fraud.score,
+        signals: conversion.fraud.signals,
+        timestamp: new Date().toISOString(),
+      });
+      return NextResponse.json({
+        message: "Conversion held for review",
+        conversionId: conversion.id,
+        points: 0,
+        userId: conversion.userId,
+      });
+    }
+
+    console.log(`Postback processed: ${conversion.clickId} -> ${ledgerEntry?.points ?? 0} points`);
+
+    return NextResponse.json({
+      message: "Postback processed successfully",
+      conversionId: conversion.id,
+      points: ledgerEntry?.points ?? 0,
+      userId: conversion.userId,
+    });
+  } catch (error) {
+    if (error instanceof PostbackError) {
+      console.warn({
+        type: "postback_rejected",
+        network,
+        code: error.code,
+        reason: error.message,
+        ip: sourceIp,
+        offerId: searchParams.get("offer_id"),
+        timestamp: new Date().toISOString(),
+      });
+      return errorResponse(error.message, error.code, error.status);
+    }
+
+    console.error("Postback processing error:", error);
+    return errorResponse("Internal server error", "INTERNAL_ERROR", 500);
+  }
+}
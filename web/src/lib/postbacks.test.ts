@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { recordClick } from "@/lib/clicks";
+import { getBalance, getLedgerEntries } from "@/lib/ledger";
+import { listConversions, parsePostbackParams, PostbackError, processPostback } from "@/lib/postbacks";
+
+function parse(query: string) {
+  return parsePostbackParams(new URLSearchParams(query), "ogads");
+}
+
+function parseError(query: string): PostbackError {
+  try {
+    parse(query);
+  } catch (error) {
+    if (error instanceof PostbackError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to be rejected`);
+}
+
+describe("parsePostbackParams", () => {
+  it("parses an OGAds postback", () => {
+    const params = parse("offer_id=30001&payout=0.50&aff_sub=click-1&aff_sub2=user-1&session_ip=1.2.3.4&datetime=2026-01-02+03:04:05");
+    expect(params).toEqual({
+      network: "ogads",
+      offerId: 30001,
+      payout: 0.5,
+      clickId: "click-1",
+      userId: "user-1",
+      ip: "1.2.3.4",
+      convertedAt: new Date("2026-01-02T03:04:05Z"),
+      chargeback: false,
+    });
+  });
+
+  it.each([
+    ["payout=1&click_id=c", "offer_id"],
+    ["offer_id=1&click_id=c", "payout"],
+    ["offer_id=1&payout=1", "click_id"],
+    ["", "offer_id, payout, click_id"],
+    ["offer_id=1&payout=1&click_id=+++", "click_id"],
+  ])("rejects %j as missing %s", (query, missing) => {
+    const error = parseError(query);
+    expect(error.code).toBe("MISSING_PARAMETERS");
+    expect(error.status).toBe(400);
+    expect(error.message).toBe(`Missing required parameters: ${missing}`);
+  });
+
+  it.each([
+    ["offer_id=abc&payout=1&click_id=c", "offer_id must be a positive integer"],
+    ["offer_id=-5&payout=1&click_id=c", "offer_id must be a positive integer"],
+    ["offer_id=1&payout=1e3&click_id=c", "payout must be a decimal amount"],
+    ["offer_id=1&payout=free&click_id=c", "payout must be a decimal amount"],
+    [`offer_id=1&payout=1&click_id=${"x".repeat(129)}`, "click_id is too long"],
+    ["offer_id=1&payout=1&click_id=c&datetime=yesterday", "datetime could not be parsed"],
+  ])("rejects %j as invalid", (query, message) => {
+    const error = parseError(query);
+    expect(error.code).toBe("INVALID_PARAMETER");
+    expect(error.status).toBe(400);
+    expect(error.message).toBe(message);
+  });
+
+  it.each(["payout=-0.50", "payout=0.50&status=reversed", "payout=0.50&status=Chargeback"])(
+    "treats %s as a chargeback",
+    (query) => {
+      expect(parse(`offer_id=1&click_id=c&${query}`).chargeback).toBe(true);
+    }
+  );
+});
+
+describe("processPostback", () => {
+  it("credits a conversion once per offer and click", async () => {
+    const params = parse("offer_id=40001&payout=0.75&click_id=replayed-click&user_id=replay-user");
+
+    const first = await processPostback(params);
+    expect(first.duplicate).toBe(false);
+    expect(first.conversion.id).toBe("40001-replayed-click");
+    expect(first.conversion.status).toBe("approved");
+    expect(first.ledgerEntry?.points).toBe(75);
+
+    const replay = await processPostback(params);
+    expect(replay.duplicate).toBe(true);
+    expect(replay.conversion.id).toBe(first.conversion.id);
+
+    const conversions = (await listConversions()).filter((conversion) => conversion.id === "40001-replayed-click");
+    expect(conversions).toHaveLength(1);
+    expect(await getBalance("replay-user")).toBe(75);
+    expect(await getLedgerEntries("replay-user")).toHaveLength(1);
+  });
+
+  it("rejects a postback naming another offer than the click's", async () => {
+    await processPostback(parse("offer_id=40002&payout=0.10&click_id=shared-click&user_id=key-user"));
+
+    await expect(
+      processPostback(parse("offer_id=40003&payout=5.00&click_id=shared-click&user_id=key-user"))
+    ).rejects.toMatchObject({ code: "INVALID_PARAMETER", status: 400 });
+    const conversions = (await listConversions()).filter((conversion) => conversion.clickId === "shared-click");
+    expect(conversions.map((conversion) => conversion.id)).toEqual(["40002-shared-click"]);
+    expect(await getBalance("key-user")).toBe(10);
+  });
+
+  it("rejects a postback for a tracked click on another offer", async () => {
+    const click = await recordClick({
+      userId: "tracked-user",
+      network: "ogads",
+      offerId: 40006,
+      offerName: "Tracked offer",
+      reportedEpc: null,
+      subid: null,
+      lockerId: null,
+      experiments: [],
+      ip: null,
+      country: null,
+      formFactor: null,
+      os: null,
+      userAgent: null,
+      fraud: null,
+    });
+
+    await expect(
+      processPostback(parse(`offer_id=40007&payout=1.00&click_id=${click.id}&user_id=tracked-user`))
+    ).rejects.toMatchObject({ code: "INVALID_PARAMETER", status: 400 });
+    expect(await getBalance("tracked-user")).toBe(0);
+  });
+
+  it("reverses a conversion once when the chargeback is replayed", async () => {
+    await processPostback(parse("offer_id=40004&payout=1.00&click_id=reversed-click&user_id=reversal-user"));
+    expect(await getBalance("reversal-user")).toBe(100);
+
+    const chargeback = parse("offer_id=40004&payout=-1.00&click_id=reversed-click&user_id=reversal-user");
+    const reversal = await processPostback(chargeback);
+    expect(reversal.duplicate).toBe(false);
+    expect(reversal.conversion.status).toBe("reversed");
+    expect(await getBalance("reversal-user")).toBe(0);
+
+    const replay = await processPostback(chargeback);
+    expect(replay.duplicate).toBe(true);
+    expect(await getBalance("reversal-user")).toBe(0);
+
+    // A late replay of the original postback must not credit the user again.
+    const lateConversion = await processPostback(
+      parse("offer_id=40004&payout=1.00&click_id=reversed-click&user_id=reversal-user")
+    );
+    expect(lateConversion.duplicate).toBe(true);
+    expect(lateConversion.conversion.status).toBe("reversed");
+    expect(await getBalance("reversal-user")).toBe(0);
+  });
+
+  it("rejects a chargeback without a conversion", async () => {
+    await expect(
+      processPostback(parse("offer_id=40005&payout=0.50&status=reversed&click_id=unknown-click"))
+    ).rejects.toMatchObject({ code: "CONVERSION_NOT_FOUND", status: 404 });
+  });
+});
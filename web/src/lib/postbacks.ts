@@ -0,0 +1,317 @@
+import type { LedgerEntry } from "@/types/ledger";
+import type { ClickRecord, ConversionRecord } from "@/types/tracking";
+import { findOrCreateOrphanedClick } from "@/lib/clicks";
+import { FRAUD_REVIEW_THRESHOLD, screenConversion } from "@/lib/fraud";
+import { creditConversion, payoutToPoints, reverseConversion } from "@/lib/ledger";
+import { DEFAULT_NETWORK } from "@/lib/offer-providers";
+import { readCollection, updateCollection } from "@/lib/store";
+import { publishWebhookEventSafely } from "@/lib/webhooks";
+
+const CONVERSIONS_COLLECTION = "conversions";
+const CHARGEBACK_STATUSES = new Set(["reversed", "reversal", "chargeback", "rejected", "declined"]);
+
+export type PostbackErrorCode =
+  | "MISSING_PARAMETERS"
+  | "INVALID_PARAMETER"
+  | "IP_NOT_ALLOWED"
+  | "INVALID_SIGNATURE"
+  | "AUTH_NOT_CONFIGURED"
+  | "CONVERSION_NOT_FOUND"
+  | "UNKNOWN_NETWORK"
+  | "INTERNAL_ERROR";
+
+export class PostbackError extends Error {
+  readonly code: PostbackErrorCode;
+  readonly status: number;
+
+  constructor(message: string, code: PostbackErrorCode, status: number) {
+    super(message);
+    this.name = "PostbackError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface PostbackParams {
+  network: string;
+  offerId: number;
+  payout: number;
+  clickId: string;
+  userId: string | null;
+  ip: string | null;
+  convertedAt: Date;
+  /** Negative payouts and reversal statuses undo an earlier conversion. */
+  chargeback: boolean;
+}
+
+export interface PostbackOutcome {
+  conversion: ConversionRecord;
+  ledgerEntry: LedgerEntry | null;
+  duplicate: boolean;
+}
+
+function firstParam(searchParams: URLSearchParams, names: string[]): string | null {
+  for (const name of names) {
+    const value = searchParams.get(name)?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+// OGAds sends `{datetime}` as "YYYY-MM-DD HH:mm:ss" without a zone; treat it as UTC.
+function parseDatetime(value: string): Date | null {
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value)
+    ? value.replace(" ", "T") + "Z"
+    : value;
+  const parsed = new Date(normalized);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/** Parses the OGAds postback format (`click_id`/`aff_sub`, `offer_id`, `payout`, ...). */
+export function parsePostbackParams(searchParams: URLSearchParams, network: string): PostbackParams {
+  const rawOfferId = firstParam(searchParams, ["offer_id"]);
+  const rawPayout = firstParam(searchParams, ["payout"]);
+  const clickId = firstParam(searchParams, ["click_id", "aff_sub"]);
+
+  if (!rawOfferId || !rawPayout || !clickId) {
+    const missing = Object.entries({ offer_id: rawOfferId, payout: rawPayout, click_id: clickId })
+      .filter(([, value]) => !value)
+      .map(([name]) => name);
+    throw new PostbackError(
+      `Missing required parameters: ${missing.join(", ")}`,
+      "MISSING_PARAMETERS",
+      400
+    );
+  }
+
+  if (!/^\d+$/.test(rawOfferId)) {
+    throw new PostbackError("offer_id must be a positive integer", "INVALID_PARAMETER", 400);
+  }
+
+  const payout = Number(rawPayout);
+  if (!/^-?\d+(\.\d+)?$/.test(rawPayout) || !Number.isFinite(payout)) {
+    throw new PostbackError("payout must be a decimal amount", "INVALID_PARAMETER", 400);
+  }
+
+  if (clickId.length > 128) {
+    throw new PostbackError("click_id is too long", "INVALID_PARAMETER", 400);
+  }
+
+  const rawDatetime = firstParam(searchParams, ["datetime"]);
+  let convertedAt = new Date();
+  if (rawDatetime) {
+    const parsed = parseDatetime(rawDatetime);
+    if (!parsed) {
+      throw new PostbackError("datetime could not be parsed", "INVALID_PARAMETER", 400);
+    }
+    convertedAt = parsed;
+  }
+
+  const status = firstParam(searchParams, ["status"])?.toLowerCase();
+
+  return {
+    network,
+    offerId: Number.parseInt(rawOfferId, 10),
+    payout,
+    clickId,
+    userId: firstParam(searchParams, ["user_id", "aff_sub2"]),
+    ip: firstParam(searchParams, ["ip", "session_ip", "aff_sub4"]),
+    convertedAt,
+    chargeback: payout < 0 || (status !== undefined && CHARGEBACK_STATUSES.has(status)),
+  };
+}
+
+export async function listConversions(): Promise<ConversionRecord[]> {
+  return readCollection<ConversionRecord>(CONVERSIONS_COLLECTION);
+}
+
+export function getConversionKey(offerId: number, clickId: string) {
+  return `${offerId}-${clickId}`;
+}
+
+// Records from before multiple networks were supported carry no network.
+function assertSameNetwork(recordNetwork: string | undefined, params: PostbackParams, clickId: string) {
+  const network = recordNetwork ?? DEFAULT_NETWORK;
+  if (network !== params.network) {
+    throw new PostbackError(
+      `Click ${clickId} belongs to the ${network} network, not ${params.network}`,
+      "INVALID_PARAMETER",
+      400
+    );
+  }
+}
+
+// Otherwise a postback could credit one click once per offer id it names.
+function assertSameOffer(click: ClickRecord, params: PostbackParams) {
+  if (click.offerId !== params.offerId) {
+    throw new PostbackError(
+      `Click ${click.id} was made on offer ${click.offerId}, not ${params.offerId}`,
+      "INVALID_PARAMETER",
+      400
+    );
+  }
+}
+
+async function processChargeback(params: PostbackParams): Promise<PostbackOutcome> {
+  const conversionId = getConversionKey(params.offerId, params.clickId);
+
+  const outcome = await updateCollection<ConversionRecord, { conversion: ConversionRecord; duplicate: boolean } | null>(
+    CONVERSIONS_COLLECTION,
+    (conversions) => {
+      const existing = conversions.find((conversion) => conversion.id === conversionId);
+      if (!existing) {
+        return { result: null };
+      }
+      assertSameNetwork(existing.network, params, existing.clickId);
+      if (existing.status === "reversed") {
+        return { result: { conversion: existing, duplicate: true } };
+      }
+
+      const reversed: ConversionRecord = {
+        ...existing,
+        status: "reversed",
+        reversedAt: new Date().toISOString(),
+      };
+      return {
+        records: conversions.map((conversion) => (conversion.id === conversionId ? reversed : conversion)),
+        result: { conversion: reversed, duplicate: false },
+      };
+    }
+  );
+
+  if (!outcome) {
+    throw new PostbackError(
+      `No conversion ${conversionId} to reverse`,
+      "CONVERSION_NOT_FOUND",
+      404
+    );
+  }
+
+  const reversal = await reverseConversion(conversionId, `Reversal of offer ${params.offerId} conversion`);
+  if (!outcome.duplicate) {
+    await publishWebhookEventSafely("conversion.reversed", { conversion: outcome.conversion });
+  }
+
+  return {
+    conversion: outcome.conversion,
+    ledgerEntry: reversal?.entry ?? null,
+    duplicate: outcome.duplicate,
+  };
+}
+
+export async function processPostback(params: PostbackParams): Promise<PostbackOutcome> {
+  if (params.chargeback) {
+    return processChargeback(params);
+  }
+
+  const click = await findOrCreateOrphanedClick(params.clickId, {
+    userId: params.userId,
+    network: params.network,
+    offerId: params.offerId,
+    ip: params.ip,
+    createdAt: params.convertedAt.toISOString(),
+  });
+  assertSameNetwork(click.network, params, click.id);
+  assertSameOffer(click, params);
+
+  const conversionId = getConversionKey(params.offerId, params.clickId);
+  const fraud = await screenConversion(click, { ip: params.ip, convertedAt: params.convertedAt });
+
+  const { conversion, duplicate } = await updateCollection<
+    ConversionRecord,
+    { conversion: ConversionRecord; duplicate: boolean }
+  >(CONVERSIONS_COLLECTION, (conversions) => {
+    const existing = conversions.find((candidate) => candidate.id === conversionId);
+    if (existing) {
+      return { result: { conversion: existing, duplicate: true } };
+    }
+
+    const created: ConversionRecord = {
+      id: conversionId,
+      clickId: params.clickId,
+      userId: click.userId ?? params.userId,
+      network: params.network,
+      offerId: params.offerId,
+      payoutUsd: params.payout,
+      points: payoutToPoints(params.payout),
+      status: fraud.score >= FRAUD_REVIEW_THRESHOLD ? "held" : "approved",
+      experiments: click.experiments ?? [],
+      ip: params.ip,
+      fraud,
+      convertedAt: params.convertedAt.toISOString(),
+      reversedAt: null,
+      reviewedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    return {
+      records: [...conversions, created],
+      result: { conversion: created, duplicate: false },
+    };
+  });
+
+  // Crediting is idempotent, so replays also repair a credit lost to a crash
+  // between the conversion write and the ledger write.
+  const ledgerEntry = await creditApprovedConversion(conversion);
+  if (!duplicate) {
+    await publishWebhookEventSafely("conversion.created", { conversion });
+  }
+
+  return { conversion, ledgerEntry, duplicate };
+}
+
+async function creditApprovedConversion(conversion: ConversionRecord): Promise<LedgerEntry | null> {
+  if (!conversion.userId || conversion.status !== "approved" || conversion.points <= 0) {
+    return null;
+  }
+
+  const credit = await creditConversion(
+    conversion.userId,
+    conversion.id,
+    conversion.points,
+    `Offer ${conversion.offerId} completed`
+  );
+  return credit.entry;
+}
+
+export class ConversionReviewError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ConversionReviewError";
+    this.status = status;
+  }
+}
+
+export type ReviewDecision = "approve" | "reject";
+
+/** Resolves a held conversion; approving credits the user as a normal conversion would have. */
+export async function reviewConversion(
+  conversionId: string,
+  decision: ReviewDecision
+): Promise<{ conversion: ConversionRecord; ledgerEntry: LedgerEntry | null }> {
+  const conversion = await updateCollection<ConversionRecord, ConversionRecord>(CONVERSIONS_COLLECTION, (conversions) => {
+    const existing = conversions.find((candidate) => candidate.id === conversionId);
+    if (!existing) {
+      throw new ConversionReviewError(`Conversion ${conversionId} not found`, 404);
+    }
+    if (existing.status !== "held") {
+      throw new ConversionReviewError(`Conversion ${conversionId} is ${existing.status}, not held for review`, 409);
+    }
+
+    const reviewed: ConversionRecord = {
+      ...existing,
+      status: decision === "approve" ? "approved" : "rejected",
+      reviewedAt: new Date().toISOString(),
+    };
+    return {
+      records: conversions.map((candidate) => (candidate.id === conversionId ? reviewed : candidate)),
+      result: reviewed,
+    };
+  });
+
+  const ledgerEntry = await creditApprovedConversion(conversion);
+  await publishWebhookEventSafely("conversion.reviewed", { conversion });
+  return { conversion, ledgerEntry };
+}
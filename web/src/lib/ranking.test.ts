@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { parseRankingWeights } from "@/lib/ranking";
+
+const BASE = { epc: 1, payout: 0.5, cvr: 0.5, boosted: 0.25 };
+
+describe("parseRankingWeights", () => {
+  it("overrides the given coefficients and keeps the rest", () => {
+    expect(parseRankingWeights("epc:2, payout:0", BASE)).toEqual({ ...BASE, epc: 2, payout: 0 });
+  });
+
+  it("ignores unknown keys and invalid numbers", () => {
+    expect(parseRankingWeights("speed:3,cvr:lots,boosted", BASE)).toEqual(BASE);
+  });
+
+  it("ignores inherited property names", () => {
+    const weights = parseRankingWeights("toString:1,constructor:2,__proto__:3,hasOwnProperty:4", BASE);
+    expect(weights).toEqual(BASE);
+    expect(Object.keys(weights)).toEqual(Object.keys(BASE));
+    expect(typeof weights.toString).toBe("function");
+  });
+});
@@ -0,0 +1,105 @@
+import type { Offer } from "@/types/offers";
+
+export const RANKING_STRATEGIES = ["epc", "payout", "cvr", "boosted-first", "weighted"] as const;
+
+export type RankingStrategy = (typeof RANKING_STRATEGIES)[number];
+
+export interface RankingWeights {
+  epc: number;
+  payout: number;
+  cvr: number;
+  boosted: number;
+}
+
+export const DEFAULT_RANKING_STRATEGY: RankingStrategy = "epc";
+
+const DEFAULT_WEIGHTS: RankingWeights = { epc: 1, payout: 0.5, cvr: 0.5, boosted: 0.25 };
+
+type Comparator = (a: Offer, b: Offer) => number;
+
+function metric(value: number | null): number {
+  return value !== null && Number.isFinite(value) ? value : -1;
+}
+
+const byEpc: Comparator = (a, b) => metric(b.epc) - metric(a.epc);
+const byPayout: Comparator = (a, b) => b.payout - a.payout;
+const byCvr: Comparator = (a, b) => metric(b.cvr) - metric(a.cvr);
+const byBoosted: Comparator = (a, b) => Number(b.boosted) - Number(a.boosted);
+
+function chain(...comparators: Comparator[]): Comparator {
+  return (a, b) => {
+    for (const comparator of comparators) {
+      const result = comparator(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+}
+
+const COMPARATORS: Record<Exclude<RankingStrategy, "weighted">, Comparator> = {
+  epc: chain(byEpc, byPayout),
+  payout: chain(byPayout, byEpc),
+  cvr: chain(byCvr, byEpc, byPayout),
+  "boosted-first": chain(byBoosted, byEpc, byPayout),
+};
+
+/**
+ * Parses `epc:1,payout:0.5` style coefficients. Unknown keys and invalid
+ * numbers are ignored; missing keys fall back to `base`.
+ */
+export function parseRankingWeights(value: string | null | undefined, base: RankingWeights = DEFAULT_WEIGHTS): RankingWeights {
+  const weights = { ...base };
+  if (!value) return weights;
+
+  for (const pair of value.split(",")) {
+    const [key, raw] = pair.split(":").map((part) => part.trim());
+    const parsed = Number.parseFloat(raw ?? "");
+    if (Object.hasOwn(weights, key) && Number.isFinite(parsed)) {
+      weights[key as keyof RankingWeights] = parsed;
+    }
+  }
+  return weights;
+}
+
+export const CONFIGURED_RANKING_WEIGHTS = parseRankingWeights(process.env.RANKING_WEIGHTS);
+
+export function parseRankingStrategy(value: string | null): RankingStrategy | undefined {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  return RANKING_STRATEGIES.find((strategy) => strategy === normalized);
+}
+
+function weightedScores(offers: Offer[], weights: RankingWeights): Map<Offer, number> {
+  // Each metric is scaled to 0..1 against the best offer in the feed so the
+  // coefficients stay comparable regardless of units.
+  const maxOf = (values: number[]) => Math.max(0, ...values);
+  const maxEpc = maxOf(offers.map((offer) => offer.epc ?? 0));
+  const maxPayout = maxOf(offers.map((offer) => offer.payout));
+  const maxCvr = maxOf(offers.map((offer) => offer.cvr ?? 0));
+  const scale = (value: number | null, max: number) => (value && max > 0 ? value / max : 0);
+
+  return new Map(
+    offers.map((offer) => [
+      offer,
+      weights.epc * scale(offer.epc, maxEpc) +
+        weights.payout * scale(offer.payout, maxPayout) +
+        weights.cvr * scale(offer.cvr, maxCvr) +
+        weights.boosted * (offer.boosted ? 1 : 0),
+    ])
+  );
+}
+
+export function rankOffers(
+  offers: Offer[],
+  strategy: RankingStrategy = DEFAULT_RANKING_STRATEGY,
+  weights: RankingWeights = CONFIGURED_RANKING_WEIGHTS
+): Offer[] {
+  if (strategy === "weighted") {
+    const scores = weightedScores(offers, weights);
+    return [...offers].sort(
+      chain((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0), COMPARATORS.epc)
+    );
+  }
+
+  return [...offers].sort(COMPARATORS[strategy]);
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { describe, expect, it } from "vitest";
+import { sourceIpIdentity, withRateLimit } from "@/lib/rate-limit";
+
+function request(forwardedFor: string, query = "") {
+  return new NextRequest(`http://localhost/api/track${query}`, { headers: { "x-forwarded-for": forwardedFor } });
+}
+
+describe("withRateLimit", () => {
+  it("keys buckets on the trusted hop, so spoofed X-Forwarded-For entries share one bucket", async () => {
+    const handler = withRateLimit({ name: "spoof-test", limit: { capacity: 2, windowMs: 60 * 1000 } }, async () =>
+      NextResponse.json({ ok: true })
+    );
+
+    const statuses = [];
+    for (const spoofed of ["1.1.1.1", "2.2.2.2", "3.3.3.3"]) {
+      statuses.push((await handler(request(`${spoofed}, 203.0.113.9`), undefined)).status);
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+
+    const otherClient = await handler(request("1.1.1.1, 203.0.113.10"), undefined);
+    expect(otherClient.status).toBe(200);
+  });
+
+  it("limits custom identities built from the source IP", async () => {
+    const handler = withRateLimit(
+      {
+        name: "identify-test",
+        limit: { capacity: 1, windowMs: 60 * 1000 },
+        identify: (req) => [sourceIpIdentity(req), `user:${req.nextUrl.searchParams.get("userId")}`],
+      },
+      async () => NextResponse.json({ ok: true })
+    );
+
+    expect((await handler(request("9.9.9.9, 203.0.113.11", "?userId=a"), undefined)).status).toBe(200);
+    // A new user id does not help once the address is out of tokens.
+    const blocked = await handler(request("8.8.4.4, 203.0.113.11", "?userId=b"), undefined);
+    expect(blocked.status).toBe(429);
+    expect(blocked.headers.get("Retry-After")).toBe("60");
+  });
+});
+
+describe("sourceIpIdentity", () => {
+  it("falls back to a shared bucket without a source address", () => {
+    expect(sourceIpIdentity(new NextRequest("http://localhost/"))).toBe("ip:unknown");
+  });
+});
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CacheStore, createFileCacheStore, createMemoryCacheStore } from "@/lib/cache";
+import { isAdminAuthorized } from "@/lib/admin-auth";
+import { getSourceIp } from "@/lib/request";
+import { DATA_DIR } from "@/lib/store";
+
+export interface RateLimit {
+  /** Bucket size: the burst a client may send at once. */
+  capacity: number;
+  /** Time to refill an empty bucket; tokens trickle back evenly over it. */
+  windowMs: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Time until the bucket is full again. */
+  resetMs: number;
+  /** Time until the next token, when the request was refused. */
+  retryAfterMs: number;
+}
+
+// Tokens sent as `Authorization: Bearer <token>` or `X-Admin-Token` that skip every limit.
+const ADMIN_TOKENS = (process.env.RATE_LIMIT_ADMIN_TOKENS ?? "")
+  .split(",")
+  .map((token) => token.trim())
+  .filter(Boolean);
+
+/** Parses `30/60` (30 requests, refilled over 60 seconds). */
+export function parseRateLimit(value: string | undefined, fallback: RateLimit): RateLimit {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)s?$/);
+  if (!match) return fallback;
+  const capacity = Number.parseInt(match[1], 10);
+  const windowSeconds = Number.parseInt(match[2], 10);
+  return capacity > 0 && windowSeconds > 0 ? { capacity, windowMs: windowSeconds * 1000 } : fallback;
+}
+
+function createRateLimitStore(): CacheStore<BucketState> {
+  if (process.env.RATE_LIMIT_BACKEND === "file") {
+    return createFileCacheStore(process.env.RATE_LIMIT_DIR ?? `${DATA_DIR}/rate-limits`);
+  }
+  return createMemoryCacheStore(10000);
+}
+
+/**
+ * Token-bucket limiter over any `CacheStore`, so the in-memory LRU or a shared
+ * backend (the file store, or Redis/KV implementations) can hold the buckets.
+ * Updates for a key are serialized within this process.
+ */
+export function createRateLimiter(store: CacheStore<BucketState>) {
+  const queues = new Map<string, Promise<unknown>>();
+
+  async function consume(key: string, limit: RateLimit): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const refillPerMs = limit.capacity / limit.windowMs;
+    const entry = await store.get(key);
+    const elapsed = entry ? Math.max(0, now - entry.value.updatedAt) : 0;
+    const available = entry
+      ? Math.min(limit.capacity, entry.value.tokens + elapsed * refillPerMs)
+      : limit.capacity;
+
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    const resetMs = Math.ceil((limit.capacity - tokens) / refillPerMs);
+    await store.set(key, {
+      value: { tokens, updatedAt: now },
+      storedAt: now,
+      freshUntil: now + resetMs,
+      // A bucket left alone long enough is full again, so it can be forgotten.
+      staleUntil: now + resetMs,
+    });
+
+    return {
+      allowed,
+      limit: limit.capacity,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    };
+  }
+
+  return {
+    take(key: string, limit: RateLimit): Promise<RateLimitDecision> {
+      const previous = queues.get(key) ?? Promise.resolve();
+      const next = previous.catch(() => undefined).then(() => consume(key, limit));
+      queues.set(key, next);
+      next.finally(() => {
+        if (queues.get(key) === next) queues.delete(key);
+      }).catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+let defaultLimiter: ReturnType<typeof createRateLimiter> | null = null;
+
+function getRateLimiter() {
+  if (!defaultLimiter) {
+    defaultLimiter = createRateLimiter(createRateLimitStore());
+  }
+  return defaultLimiter;
+}
+
+export function isRateLimitExempt(request: NextRequest): boolean {
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const token = request.headers.get("x-admin-token") ?? bearer;
+  if (token && ADMIN_TOKENS.includes(token.trim())) {
+    return true;
+  }
+  return isAdminAuthorized(request.headers.get("authorization"));
+}
+
+/**
+ * Bucket identity for the caller's address: the hop the trusted proxy
+ * appended, so rotating `X-Forwarded-For` values does not earn fresh buckets.
+ */
+export function sourceIpIdentity(request: NextRequest): string {
+  return `ip:${getSourceIp(request) ?? "unknown"}`;
+}
+
+export interface RateLimitPolicy {
+  /** Namespaces the buckets so each route is limited independently. */
+  name: string;
+  limit: RateLimit;
+  /**
+   * Identities to limit, e.g. the source IP and a user id. Every identity
+   * must have a token left. Defaults to the source IP.
+   */
+  identify?: (request: NextRequest) => (string | null | undefined)[];
+}
+
+function setRateLimitHeaders(headers: Headers, decision: RateLimitDecision) {
+  headers.set("X-RateLimit-Limit", String(decision.limit));
+  headers.set("X-RateLimit-Remaining", String(decision.remaining));
+  headers.set("X-RateLimit-Reset", String(Math.ceil(decision.resetMs / 1000)));
+}
+
+/** Wraps a route handler so it answers `429` once a caller runs out of tokens. */
+export function withRateLimit<C>(
+  policy: RateLimitPolicy,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    if (isRateLimitExempt(request)) {
+      return handler(request, context);
+    }
+
+    const identities = (policy.identify?.(request) ?? [sourceIpIdentity(request)])
+      .filter((identity): identity is string => Boolean(identity));
+    const limiter = getRateLimiter();
+
+    // Report the tightest bucket so clients see the limit they will hit first.
+    let tightest: RateLimitDecision | null = null;
+    for (const identity of identities) {
+      const decision = await limiter.take(`${policy.name}:${identity}`, policy.limit);
+      if (!tightest || !decision.allowed || decision.remaining < tightest.remaining) {
+        tightest = decision;
+      }
+      if (!decision.allowed) break;
+    }
+
+    if (tightest && !tightest.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(tightest.retryAfterMs / 1000));
+      const response = NextResponse.json(
+        {
+          error: "Too many requests",
+          code: "RATE_LIMITED",
+          retryAfter: retryAfterSeconds,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+      );
+      setRateLimitHeaders(response.headers, tightest);
+      return response;
+    }
+
+    const response = await handler(request, context);
+    if (tightest) {
+      setRateLimitHeaders(response.headers, tightest);
+    }
+    return response;
+  };
+}
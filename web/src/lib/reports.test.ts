@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { ConversionRecord, ConversionStatus } from "@/types/tracking";
+import { buildReport, parseReportParams, Report, ReportMetrics, ReportQueryError, reportToCsv } from "@/lib/reports";
+import { appendRecord } from "@/lib/store";
+
+const METRICS: ReportMetrics = { clicks: 4, conversions: 1, reversals: 0, held: 0, rejected: 0, payoutUsd: 0.5, cvr: 25, epc: 0.125 };
+
+function csvFor(subids: string[]) {
+  const report: Report = {
+    from: "2026-01-01T00:00:00.000Z",
+    to: "2026-01-08T00:00:00.000Z",
+    timezone: "UTC",
+    groupBy: ["subid"],
+    rows: subids.map((subid) => ({ subid, ...METRICS })),
+    totals: METRICS,
+  };
+  return reportToCsv(report).trimEnd().split("\n").slice(1);
+}
+
+describe("reportToCsv", () => {
+  it("writes plain cells unchanged", () => {
+    expect(csvFor(["tiktok"])).toEqual(["tiktok,4,1,0,0,0,0.5,25,0.125"]);
+  });
+
+  it("quotes cells containing separators and quotes", () => {
+    expect(csvFor(['a,b', 'say "hi"'])).toEqual(['"a,b",4,1,0,0,0,0.5,25,0.125', '"say ""hi""",4,1,0,0,0,0.5,25,0.125']);
+  });
+
+  it.each([
+    ["=HYPERLINK(\"http://evil.example\")", `"'=HYPERLINK(""http://evil.example"")"`],
+    ["+1+1", `"'+1+1"`],
+    ["-2+3", `"'-2+3"`],
+    ["@SUM(A1)", `"'@SUM(A1)"`],
+    ["\t=1+1", `"'\t=1+1"`],
+    ["\r=1+1", `"'\r=1+1"`],
+  ])("neutralizes the formula %j", (subid, cell) => {
+    expect(csvFor([subid])).toEqual([`${cell},4,1,0,0,0,0.5,25,0.125`]);
+  });
+});
+
+function conversion(id: string, status: ConversionStatus): ConversionRecord {
+  return {
+    id: `50001-${id}`,
+    clickId: id,
+    userId: null,
+    network: "ogads",
+    offerId: 50001,
+    payoutUsd: 2,
+    points: 200,
+    status,
+    experiments: [],
+    ip: null,
+    fraud: { score: 0, signals: [] },
+    convertedAt: "2026-03-02T12:00:00.000Z",
+    reversedAt: null,
+    reviewedAt: null,
+    createdAt: "2026-03-02T12:00:00.000Z",
+  };
+}
+
+describe("buildReport", () => {
+  it("counts only approved conversions in conversions and payout", async () => {
+    for (const [id, status] of [
+      ["approved-click", "approved"],
+      ["held-click", "held"],
+      ["rejected-click", "rejected"],
+      ["reversed-click", "reversed"],
+    ] as const) {
+      await appendRecord("conversions", conversion(id, status));
+    }
+
+    const report = await buildReport({
+      groupBy: ["offer"],
+      from: new Date("2026-03-01T00:00:00Z"),
+      to: new Date("2026-03-03T00:00:00Z"),
+      timezone: "UTC",
+      format: "json",
+    });
+
+    expect(report.totals).toMatchObject({ conversions: 1, payoutUsd: 2, held: 1, rejected: 1, reversals: 1 });
+    expect(report.rows).toHaveLength(1);
+    expect(report.rows[0]).toMatchObject({ offer: "ogads:50001", conversions: 1, held: 1, rejected: 1, reversals: 1 });
+  });
+});
+
+describe("parseReportParams", () => {
+  it.each(["2024-02-30", "2024-02-31", "2023-02-29", "2024-04-31", "2024-13-01", "2024-01-00"])(
+    "rejects the impossible date %s",
+    (date) => {
+      expect(() => parseReportParams(new URLSearchParams(`from=${date}&to=2024-12-31`))).toThrow(ReportQueryError);
+      expect(() => parseReportParams(new URLSearchParams(`from=2024-01-01&to=${date}`))).toThrow(ReportQueryError);
+    }
+  );
+
+  it("accepts the last day of each month, including leap days", () => {
+    const params = parseReportParams(new URLSearchParams("from=2024-02-29&to=2024-04-30"));
+    expect(params.from.toISOString()).toBe("2024-02-29T00:00:00.000Z");
+    expect(params.to.toISOString()).toBe("2024-05-01T00:00:00.000Z");
+  });
+});
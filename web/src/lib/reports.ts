@@ -0,0 +1,309 @@
+import type { ClickRecord, ConversionRecord } from "@/types/tracking";
+import { listClicks } from "@/lib/clicks";
+import { offerKey } from "@/lib/offer-providers";
+import { listConversions } from "@/lib/postbacks";
+
+export const REPORT_DIMENSIONS = ["offer", "country", "formFactor", "os", "subid", "hour", "day", "week"] as const;
+
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+
+const TIME_DIMENSIONS: ReportDimension[] = ["hour", "day", "week"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 366;
+
+export interface ReportParams {
+  groupBy: ReportDimension[];
+  /** Inclusive start of the range. */
+  from: Date;
+  /** Exclusive end of the range. */
+  to: Date;
+  timezone: string;
+  format: "json" | "csv";
+}
+
+export interface ReportMetrics {
+  clicks: number;
+  conversions: number;
+  reversals: number;
+  /** Conversions held for fraud review; not in conversions or payout until approved. */
+  held: number;
+  rejected: number;
+  payoutUsd: number;
+  /** Conversions per click as a percentage. */
+  cvr: number | null;
+  epc: number | null;
+}
+
+export type ReportRow = Partial<Record<ReportDimension, string | number | null>> & ReportMetrics;
+
+export interface Report {
+  from: string;
+  to: string;
+  timezone: string;
+  groupBy: ReportDimension[];
+  rows: ReportRow[];
+  totals: ReportMetrics;
+}
+
+export class ReportQueryError extends Error {
+  readonly param: string;
+
+  constructor(param: string, message: string) {
+    super(message);
+    this.name = "ReportQueryError";
+    this.param = param;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+function createZonedFormatter(timezone: string) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (date: Date): ZonedParts & { minute: number } => {
+    const parts = Object.fromEntries(
+      formatter.formatToParts(date).map((part) => [part.type, Number.parseInt(part.value, 10)])
+    );
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+  };
+}
+
+// Finds the UTC instant of a wall-clock time in `timezone`, correcting once
+// for the offset so DST transitions land on the right side.
+function zonedTimeToUtc(parts: ZonedParts, timezone: string): Date {
+  const toZoned = createZonedFormatter(timezone);
+  const target = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour);
+  let guess = target;
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const zoned = toZoned(new Date(guess));
+    const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+    guess += target - asUtc;
+  }
+  return new Date(guess);
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+function formatDate(year: number, month: number, day: number) {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseTimezone(value: string | null): string {
+  const timezone = value?.trim() || "UTC";
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: timezone }).resolvedOptions().timeZone;
+  } catch {
+    throw new ReportQueryError("tz", `Unknown timezone: ${timezone}`);
+  }
+}
+
+// Dates (YYYY-MM-DD) are midnight in the report timezone; `to` dates include
+// the whole day. Full ISO timestamps are used as-is.
+function parseBoundary(value: string, name: "from" | "to", timezone: string): Date {
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    // Day 0 of the next month is the last day of this one.
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth) {
+      return zonedTimeToUtc({ year, month, day: name === "to" ? day + 1 : day, hour: 0 }, timezone);
+    }
+  } else {
+    const parsed = new Date(value);
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(parsed.getTime())) return parsed;
+  }
+  throw new ReportQueryError(name, `${name} must be a YYYY-MM-DD date or an ISO 8601 timestamp`);
+}
+
+export function parseReportParams(searchParams: URLSearchParams): ReportParams {
+  const groupBy = (searchParams.get("groupBy") ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean) as ReportDimension[];
+  const unknown = groupBy.filter((dimension) => !REPORT_DIMENSIONS.includes(dimension));
+  if (unknown.length > 0) {
+    throw new ReportQueryError(
+      "groupBy",
+      `Unknown dimensions: ${unknown.join(", ")}. Use any of: ${REPORT_DIMENSIONS.join(", ")}`
+    );
+  }
+  if (groupBy.filter((dimension) => TIME_DIMENSIONS.includes(dimension)).length > 1) {
+    throw new ReportQueryError("groupBy", "Only one of hour, day or week can be used");
+  }
+
+  const timezone = parseTimezone(searchParams.get("tz"));
+  const rawFrom = searchParams.get("from");
+  const rawTo = searchParams.get("to");
+  const to = rawTo ? parseBoundary(rawTo, "to", timezone) : new Date();
+  const from = rawFrom ? parseBoundary(rawFrom, "from", timezone) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (from >= to) {
+    throw new ReportQueryError("from", "from must be before to");
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new ReportQueryError("from", `The range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  const format = searchParams.get("format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new ReportQueryError("format", "format must be json or csv");
+  }
+
+  return { groupBy: Array.from(new Set(groupBy)), from, to, timezone, format };
+}
+
+function createBucketer(timezone: string) {
+  const toZoned = createZonedFormatter(timezone);
+
+  return (dimension: ReportDimension, timestamp: string): string => {
+    const zoned = toZoned(new Date(timestamp));
+    if (dimension === "hour") {
+      return `${formatDate(zoned.year, zoned.month, zoned.day)} ${pad(zoned.hour)}:00`;
+    }
+    if (dimension === "day") {
+      return formatDate(zoned.year, zoned.month, zoned.day);
+    }
+    // ISO weeks start on Monday; the bucket is labelled with that date.
+    const local = new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day));
+    local.setUTCDate(local.getUTCDate() - ((local.getUTCDay() + 6) % 7));
+    return formatDate(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate());
+  };
+}
+
+function emptyMetrics(): ReportMetrics {
+  return { clicks: 0, conversions: 0, reversals: 0, held: 0, rejected: 0, payoutUsd: 0, cvr: null, epc: null };
+}
+
+function finalizeMetrics(metrics: ReportMetrics): ReportMetrics {
+  return {
+    ...metrics,
+    payoutUsd: Number(metrics.payoutUsd.toFixed(6)),
+    cvr: metrics.clicks > 0 ? Number(((metrics.conversions / metrics.clicks) * 100).toFixed(4)) : null,
+    epc: metrics.clicks > 0 ? Number((metrics.payoutUsd / metrics.clicks).toFixed(6)) : null,
+  };
+}
+
+/**
+ * Aggregates stored clicks and conversions. Clicks are bucketed by click time
+ * and conversions by conversion time, matching how OGAds reports them;
+ * conversions take their country, device and subid from the originating click.
+ */
+export async function buildReport(params: ReportParams): Promise<Report> {
+  const [clicks, conversions] = await Promise.all([listClicks(), listConversions()]);
+  const clicksById = new Map(clicks.map((click) => [click.id, click]));
+  const bucket = createBucketer(params.timezone);
+  const rows = new Map<string, ReportRow>();
+  const totals = emptyMetrics();
+
+  const inRange = (timestamp: string) => {
+    const time = Date.parse(timestamp);
+    return time >= params.from.getTime() && time < params.to.getTime();
+  };
+
+  const rowFor = (record: ClickRecord | ConversionRecord, click: ClickRecord | undefined, timestamp: string) => {
+    const dimensions = params.groupBy.map((dimension): [ReportDimension, string | number | null] => {
+      switch (dimension) {
+        case "offer":
+          // Offer ids are only unique within a network.
+          return [dimension, offerKey(record.network, record.offerId)];
+        case "country":
+        case "formFactor":
+        case "os":
+        case "subid":
+          return [dimension, click?.[dimension] ?? null];
+        default:
+          return [dimension, bucket(dimension, timestamp)];
+      }
+    });
+    const key = JSON.stringify(dimensions);
+    let row = rows.get(key);
+    if (!row) {
+      row = { ...Object.fromEntries(dimensions), ...emptyMetrics() };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const click of clicks) {
+    if (!inRange(click.createdAt)) continue;
+    rowFor(click, click, click.createdAt).clicks += 1;
+    totals.clicks += 1;
+  }
+
+  for (const conversion of conversions) {
+    if (!inRange(conversion.convertedAt)) continue;
+    const row = rowFor(conversion, clicksById.get(conversion.clickId), conversion.convertedAt);
+    addConversion(row, conversion);
+    addConversion(totals, conversion);
+  }
+
+  // Time buckets read chronologically; within a bucket the best rows come first.
+  const timeDimension = params.groupBy.find((dimension) => TIME_DIMENSIONS.includes(dimension));
+  const sortedRows = Array.from(rows.values())
+    .map((row) => ({ ...row, ...finalizeMetrics(row) }))
+    .sort((a, b) =>
+      (timeDimension ? String(a[timeDimension]).localeCompare(String(b[timeDimension])) : 0) ||
+      b.payoutUsd - a.payoutUsd ||
+      b.clicks - a.clicks
+    );
+
+  return {
+    from: params.from.toISOString(),
+    to: params.to.toISOString(),
+    timezone: params.timezone,
+    groupBy: params.groupBy,
+    rows: sortedRows,
+    totals: finalizeMetrics(totals),
+  };
+}
+
+function addConversion(metrics: ReportMetrics, conversion: ConversionRecord) {
+  switch (conversion.status) {
+    case "approved":
+      metrics.conversions += 1;
+      metrics.payoutUsd += conversion.payoutUsd;
+      break;
+    case "held":
+      metrics.held += 1;
+      break;
+    case "rejected":
+      metrics.rejected += 1;
+      break;
+    case "reversed":
+      metrics.reversals += 1;
+      break;
+  }
+}
+
+// Spreadsheets treat cells starting with these (including a tab or carriage
+// return) as formulas, and subids come straight from traffic sources.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  if (FORMULA_PREFIX.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function reportToCsv(report: Report): string {
+  const metrics: (keyof ReportMetrics)[] = ["clicks", "conversions", "reversals", "held", "rejected", "payoutUsd", "cvr", "epc"];
+  const header = [...report.groupBy, ...metrics];
+  const lines = report.rows.map((row) => header.map((column) => csvCell(row[column as keyof ReportRow])).join(","));
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { getClientIp, getSourceIp } from "@/lib/request";
+
+function requestWith(headers: Record<string, string>) {
+  return { headers: new Headers(headers) };
+}
+
+describe("getSourceIp", () => {
+  it("takes the address the trusted proxy appended, not what the client sent", () => {
+    const request = requestWith({ "x-forwarded-for": "104.16.0.1, 203.0.113.7" });
+    expect(getSourceIp(request)).toBe("203.0.113.7");
+  });
+
+  it("uses X-Real-IP only when no proxy appended to X-Forwarded-For", () => {
+    expect(getSourceIp(requestWith({ "x-real-ip": "203.0.113.8" }))).toBe("203.0.113.8");
+    expect(getSourceIp(requestWith({ "x-forwarded-for": "203.0.113.7", "x-real-ip": "104.16.0.1" }))).toBe(
+      "203.0.113.7"
+    );
+  });
+
+  it("returns null without forwarding headers", () => {
+    expect(getSourceIp(requestWith({}))).toBeNull();
+  });
+});
+
+describe("getClientIp", () => {
+  it("drops loopback and private addresses", () => {
+    expect(getClientIp(requestWith({ "x-forwarded-for": "8.8.8.8, 127.0.0.1" }))).toBeNull();
+    expect(getClientIp(requestWith({ "x-forwarded-for": "10.0.0.1, 8.8.8.8" }))).toBe("8.8.8.8");
+  });
+});
@@ -0,0 +1,61 @@
+import { isIpInRanges, parseCidrList } from "@/lib/ip-range";
+
+const LOCAL_RANGES = parseCidrList(
+  ["127.0.0.0/8", "10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "::1/128", "fe80::/10"].join(",")
+);
+
+/** A `NextRequest`, or `{ headers: await headers() }` in a server component. */
+export interface RequestHeadersSource {
+  headers: Pick<Headers, "get">;
+}
+
+export function isLoopbackOrLocal(ip: string): boolean {
+  const value = ip.trim();
+  if (!value) return true;
+  return isIpInRanges(value, LOCAL_RANGES);
+}
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Reverse proxies in front of the app that append the address they received
+// the request from to X-Forwarded-For. Entries left of those come from the
+// client and are never trusted. 0 ignores the forwarding headers entirely.
+const TRUSTED_PROXY_HOPS = readIntegerEnv(process.env.TRUSTED_PROXY_HOPS, 1);
+
+function getForwardedIp(request: RequestHeadersSource): string | null {
+  if (TRUSTED_PROXY_HOPS === 0) return null;
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)];
+  }
+
+  // Only reached when no proxy appended to X-Forwarded-For, e.g. nginx
+  // setting X-Real-IP from $remote_addr on its own.
+  return request.headers.get("x-real-ip")?.trim() || null;
+}
+
+/**
+ * The address the request arrived from as seen by the outermost trusted
+ * proxy, without discarding private ranges. Used where the caller must be
+ * identified (postback allowlisting, rate limiting).
+ */
+export function getSourceIp(request: RequestHeadersSource): string | null {
+  const forwarded = getForwardedIp(request);
+  if (forwarded) return forwarded;
+
+  const requestIp = (request as unknown as { ip?: string }).ip;
+  return typeof requestIp === "string" && requestIp.length > 0 ? requestIp : null;
+}
+
+/** The visitor's public address, or null when it is loopback or private. */
+export function getClientIp(request: RequestHeadersSource): string | null {
+  const ip = getSourceIp(request);
+  return ip && !isLoopbackOrLocal(ip) ? ip : null;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeHtml } from "@/lib/sanitize-html";
+
+const LINK_ATTRIBUTES = 'target="_blank" rel="noopener noreferrer nofollow"';
+
+describe("sanitizeHtml", () => {
+  it("returns an empty string for missing input", () => {
+    expect(sanitizeHtml(null)).toBe("");
+    expect(sanitizeHtml(undefined)).toBe("");
+    expect(sanitizeHtml("")).toBe("");
+  });
+
+  it("keeps allowed formatting tags", () => {
+    expect(sanitizeHtml("<p>Install <strong>and</strong> open<br>the app</p>")).toBe(
+      "<p>Install <strong>and</strong> open<br>the app</p>",
+    );
+  });
+
+  it("drops script tags together with their content", () => {
+    expect(sanitizeHtml('Play <script>alert("x")</script>now')).toBe("Play now");
+    expect(sanitizeHtml("Play <SCRIPT src=//evil.example></SCRIPT>now")).toBe("Play now");
+    expect(sanitizeHtml("Play <script>alert(1)")).toBe("Play ");
+  });
+
+  it("drops style and embedded content", () => {
+    expect(sanitizeHtml("<style>p{}</style><iframe src=//evil.example></iframe><svg onload=alert(1)></svg>ok")).toBe(
+      "ok",
+    );
+  });
+
+  it("strips event handler attributes", () => {
+    expect(sanitizeHtml('<p onclick="alert(1)">Tap</p>')).toBe("<p>Tap</p>");
+    expect(sanitizeHtml('<span ONERROR="alert(1)" onclick=alert(2)>Hi</span>')).toBe("<span>Hi</span>");
+    expect(sanitizeHtml('<img src=x onerror="alert(1)">')).toBe("");
+  });
+
+  it("keeps http, https and mailto links and forces safe link attributes", () => {
+    expect(sanitizeHtml('<a href="https://example.com/offer" onclick="steal()">Go</a>')).toBe(
+      `<a href="https://example.com/offer" ${LINK_ATTRIBUTES}>Go</a>`,
+    );
+    expect(sanitizeHtml('<a href="mailto:help@example.com">Mail</a>')).toBe(
+      `<a href="mailto:help@example.com" ${LINK_ATTRIBUTES}>Mail</a>`,
+    );
+  });
+
+  it.each([
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+    "DATA:text/html,<script>alert(1)</script>",
+    "vbscript:msgbox(1)",
+    "VBScript:msgbox(1)",
+    "&#106;avascript:alert(1)",
+    "&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)",
+    "&#0000106avascript:alert(1)",
+    "javascript&colon;alert(1)",
+    "java&Tab;script:alert(1)",
+    "java&NewLine;script:alert(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "java\nscript:alert(1)",
+    "\u0001javascript:alert(1)",
+  ])("removes a %j href", (href) => {
+    expect(sanitizeHtml(`<a href="${href}">Go</a>`)).toBe("<a>Go</a>");
+  });
+
+  it("removes unquoted and single-quoted unsafe hrefs", () => {
+    expect(sanitizeHtml("<a href=javascript:alert(1)>Go</a>")).toBe("<a>Go</a>");
+    expect(sanitizeHtml("<a href='vbscript:msgbox(1)'>Go</a>")).toBe("<a>Go</a>");
+  });
+
+  it("unwraps disallowed tags but keeps their text", () => {
+    expect(sanitizeHtml('<div class="box"><h1>Win</h1> a <font color="red">prize</font></div>')).toBe("Win a prize");
+    expect(sanitizeHtml("<table><tr><td>Step 1</td></tr></table>")).toBe("Step 1");
+  });
+
+  it("escapes stray markup characters in text", () => {
+    expect(sanitizeHtml('Earn 5 > 3 & "more" < 10')).toBe("Earn 5 &gt; 3 &amp; &quot;more&quot; &lt; 10");
+    expect(sanitizeHtml("Tom &amp; Jerry")).toBe("Tom &amp; Jerry");
+  });
+
+  it("drops comments", () => {
+    expect(sanitizeHtml("a<!-- <script>alert(1)</script> -->b")).toBe("ab");
+  });
+
+  it("closes tags left open", () => {
+    expect(sanitizeHtml("<ul><li>One<li>Two")).toBe("<ul><li>One</li><li>Two</li></ul>");
+    expect(sanitizeHtml("<b><i>bold</b> text")).toBe("<b><i>bold</i></b> text");
+  });
+});
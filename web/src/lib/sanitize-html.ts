@@ -0,0 +1,181 @@
+// Allowlist HTML sanitizer for offer copy. It runs without a DOM so offers
+// can be cleaned once on the server before they are cached or rendered.
+
+const ALLOWED_TAGS = new Set(["a", "b", "br", "em", "i", "li", "ol", "p", "small", "span", "strong", "sub", "sup", "u", "ul"]);
+const VOID_TAGS = new Set(["br"]);
+// Dropped together with everything inside them.
+const DROPPED_CONTENT_TAGS = new Set([
+  "embed",
+  "head",
+  "iframe",
+  "math",
+  "noscript",
+  "object",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+]);
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title"],
+};
+const ALLOWED_URL_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const ENTITY_PATTERN = /&(?:#\d{1,7}|#x[0-9a-f]{1,6}|[a-z][a-z0-9]{1,31});/iy;
+
+function escapeText(value: string): string {
+  let output = "";
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (char === "&") {
+      // Keep well-formed entities so `&amp;` is not escaped twice.
+      ENTITY_PATTERN.lastIndex = index;
+      output += ENTITY_PATTERN.test(value) ? "&" : "&amp;";
+    } else if (char === "<") {
+      output += "&lt;";
+    } else if (char === ">") {
+      output += "&gt;";
+    } else if (char === '"') {
+      output += "&quot;";
+    } else {
+      output += char;
+    }
+  }
+  return output;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCodePoint(Number.parseInt(hex, 16) % 0x110000))
+    .replace(/&#(\d+);?/g, (_, decimal: string) => String.fromCodePoint(Number.parseInt(decimal, 10) % 0x110000))
+    .replace(/&colon;/gi, ":")
+    .replace(/&tab;|&newline;/gi, "")
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&amp;/gi, "&");
+}
+
+function sanitizeUrl(value: string): string | null {
+  // Browsers ignore control characters and whitespace inside the scheme.
+  const decoded = decodeEntities(value).replace(/[\u0000- \u007f-\u009f]/g, "");
+  try {
+    const url = new URL(decoded);
+    return ALLOWED_URL_PROTOCOLS.has(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function renderAttributes(tag: string, source: string): string {
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+  const attributes = new Map<string, string>();
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name) || attributes.has(name)) continue;
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    const cleaned = name === "href" ? sanitizeUrl(value) : decodeEntities(value);
+    if (cleaned !== null) {
+      attributes.set(name, cleaned);
+    }
+  }
+
+  if (tag === "a" && attributes.has("href")) {
+    attributes.set("target", "_blank");
+    attributes.set("rel", "noopener noreferrer nofollow");
+  }
+
+  return Array.from(attributes, ([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join("");
+}
+
+// Index in `open` of the element a new `tag` implicitly closes, or -1.
+function impliedEndTag(tag: string, open: string[]): number {
+  if (tag === "li") {
+    const list = Math.max(open.lastIndexOf("ul"), open.lastIndexOf("ol"));
+    const item = open.lastIndexOf("li");
+    return item > list ? item : -1;
+  }
+  if (tag === "p" || tag === "ul" || tag === "ol") {
+    return open.lastIndexOf("p");
+  }
+  if (tag === "a") {
+    return open.lastIndexOf("a");
+  }
+  return -1;
+}
+
+/**
+ * Keeps basic formatting tags and safe links, unwraps any other tag, drops
+ * scripts, styles and embedded content, and escapes the remaining text.
+ * The output is well-formed: every allowed tag that is opened is closed.
+ */
+export function sanitizeHtml(input: string | null | undefined): string {
+  if (!input) return "";
+
+  const open: string[] = [];
+  let output = "";
+  let cursor = 0;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(input)) !== null) {
+    output += escapeText(input.slice(cursor, match.index));
+    cursor = TOKEN_PATTERN.lastIndex;
+
+    const [token, closing, rawTag, attributes] = match;
+    if (token.startsWith("<!--")) continue;
+    const tag = rawTag.toLowerCase();
+
+    if (DROPPED_CONTENT_TAGS.has(tag)) {
+      if (!closing && !attributes.trimEnd().endsWith("/")) {
+        const end = input.toLowerCase().indexOf(`</${tag}`, cursor);
+        const resume = end === -1 ? input.length : input.indexOf(">", end);
+        cursor = resume === -1 ? input.length : resume + 1;
+        TOKEN_PATTERN.lastIndex = cursor;
+      }
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (closing) {
+      const position = open.lastIndexOf(tag);
+      if (position === -1) continue;
+      // Close anything left open inside this element first.
+      while (open.length > position) {
+        output += `</${open.pop()}>`;
+      }
+      continue;
+    }
+
+    // Mirror the HTML parser's implied end tags so the markup nests the same
+    // way on the server and in the browser.
+    const implied = impliedEndTag(tag, open);
+    if (implied !== -1) {
+      while (open.length > implied) {
+        output += `</${open.pop()}>`;
+      }
+    }
+
+    output += `<${tag}${renderAttributes(tag, attributes)}>`;
+    if (!VOID_TAGS.has(tag)) {
+      open.push(tag);
+    }
+  }
+
+  output += escapeText(input.slice(cursor));
+  while (open.length > 0) {
+    output += `</${open.pop()}>`;
+  }
+  return output;
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+
+// Writes to a collection are chained so concurrent requests in the same
+// process never interleave a read-modify-write cycle. Route bundles and
+// instrumentation can each load this module, so the queues live on globalThis.
+const globalStore = globalThis as typeof globalThis & { __storeWriteQueues?: Map<string, Promise<unknown>> };
+const writeQueues = (globalStore.__storeWriteQueues ??= new Map<string, Promise<unknown>>());
+
+export interface CollectionUpdate<T, R> {
+  /** The new contents of the collection, or undefined to leave it untouched. */
+  records?: T[];
+  result: R;
+}
+
+function collectionPath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(collectionPath(name), "utf8");
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeCollection<T>(name: string, records: T[]) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const target = collectionPath(name);
+  const tempFile = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(records, null, 2), "utf8");
+  await fs.rename(tempFile, target);
+}
+
+export function updateCollection<T, R>(
+  name: string,
+  updater: (records: T[]) => CollectionUpdate<T, R> | Promise<CollectionUpdate<T, R>>
+): Promise<R> {
+  const previous = writeQueues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const records = await readCollection<T>(name);
+      const outcome = await updater(records);
+      if (outcome.records) {
+        await writeCollection(name, outcome.records);
+      }
+      return outcome.result;
+    });
+  writeQueues.set(name, next);
+  return next;
+}
+
+export function appendRecord<T>(name: string, record: T): Promise<T> {
+  return updateCollection<T, T>(name, (records) => ({
+    records: [...records, record],
+    result: record,
+  }));
+}
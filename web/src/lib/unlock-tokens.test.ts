@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { issueUnlockToken, verifyUnlockToken } from "@/lib/unlock-tokens";
+
+const TTL_MS = 15 * 60 * 1000;
+const ISSUED_AT = new Date("2024-06-01T12:00:00.000Z");
+
+function decodeClaims(token: string) {
+  return JSON.parse(Buffer.from(token.split(".")[0], "base64url").toString("utf8"));
+}
+
+function encodeClaims(claims: unknown) {
+  return Buffer.from(JSON.stringify(claims)).toString("base64url");
+}
+
+describe("unlock tokens", () => {
+  beforeEach(() => {
+    vi.stubEnv("LOCKER_TOKEN_SECRET", "test-secret");
+    vi.useFakeTimers();
+    vi.setSystemTime(ISSUED_AT);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts a fresh token for the locker it was issued for", () => {
+    const { token, expiresAt } = issueUnlockToken("locker-1", "user-1");
+
+    expect(expiresAt).toBe(new Date(ISSUED_AT.getTime() + TTL_MS).toISOString());
+    expect(verifyUnlockToken(token, "locker-1")).toEqual({
+      valid: true,
+      claims: { lockerId: "locker-1", userId: "user-1", exp: ISSUED_AT.getTime() + TTL_MS },
+    });
+  });
+
+  it("rejects a token for another locker", () => {
+    const { token } = issueUnlockToken("locker-1", "user-1");
+    expect(verifyUnlockToken(token, "locker-2")).toEqual({ valid: false, reason: "wrong_locker" });
+  });
+
+  it("expires tokens once their TTL has passed", () => {
+    const { token } = issueUnlockToken("locker-1", "user-1");
+
+    vi.setSystemTime(ISSUED_AT.getTime() + TTL_MS - 1);
+    expect(verifyUnlockToken(token, "locker-1").valid).toBe(true);
+
+    vi.setSystemTime(ISSUED_AT.getTime() + TTL_MS);
+    expect(verifyUnlockToken(token, "locker-1")).toEqual({ valid: false, reason: "expired" });
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const { token } = issueUnlockToken("locker-1", "user-1");
+    const [, signature] = token.split(".");
+    const claims = decodeClaims(token);
+
+    const otherUser = `${encodeClaims({ ...claims, userId: "user-2" })}.${signature}`;
+    const extended = `${encodeClaims({ ...claims, exp: claims.exp + TTL_MS })}.${signature}`;
+
+    expect(verifyUnlockToken(otherUser, "locker-1")).toEqual({ valid: false, reason: "invalid_signature" });
+    expect(verifyUnlockToken(extended, "locker-1")).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+
+  it("rejects a token whose signature was changed", () => {
+    const { token } = issueUnlockToken("locker-1", "user-1");
+    const [payload, signature] = token.split(".");
+    const flipped = `${signature[0] === "A" ? "B" : "A"}${signature.slice(1)}`;
+
+    expect(verifyUnlockToken(`${payload}.${flipped}`, "locker-1")).toEqual({
+      valid: false,
+      reason: "invalid_signature",
+    });
+    expect(verifyUnlockToken(`${payload}.${signature.slice(0, -2)}`, "locker-1")).toEqual({
+      valid: false,
+      reason: "invalid_signature",
+    });
+  });
+
+  it("rejects a token signed with a different secret", () => {
+    vi.stubEnv("LOCKER_TOKEN_SECRET", "other-secret");
+    const { token } = issueUnlockToken("locker-1", "user-1");
+
+    vi.stubEnv("LOCKER_TOKEN_SECRET", "test-secret");
+    expect(verifyUnlockToken(token, "locker-1")).toEqual({ valid: false, reason: "invalid_signature" });
+  });
+
+  it.each(["", "no-dot", "a.b.c", ".signature", "payload."])("rejects malformed token %j", (token) => {
+    expect(verifyUnlockToken(token, "locker-1")).toEqual({ valid: false, reason: "malformed" });
+  });
+});
@@ -0,0 +1,80 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const UNLOCK_TOKEN_TTL_MS = readIntegerEnv(process.env.LOCKER_TOKEN_TTL_MS, 15 * 60 * 1000);
+
+// Each route is bundled with its own copy of this module, so the fallback
+// secret lives on globalThis for tokens to verify across routes.
+const globalSecrets = globalThis as typeof globalThis & { __lockerTokenSecret?: string };
+
+function getTokenSecret(): string {
+  if (process.env.LOCKER_TOKEN_SECRET) {
+    return process.env.LOCKER_TOKEN_SECRET;
+  }
+  if (!globalSecrets.__lockerTokenSecret) {
+    console.warn("LOCKER_TOKEN_SECRET is not configured; unlock tokens will not survive a restart");
+    globalSecrets.__lockerTokenSecret = randomBytes(32).toString("hex");
+  }
+  return globalSecrets.__lockerTokenSecret;
+}
+
+export interface UnlockToken {
+  token: string;
+  expiresAt: string;
+}
+
+interface UnlockClaims {
+  lockerId: string;
+  userId: string;
+  /** Expiry in epoch milliseconds. */
+  exp: number;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", getTokenSecret()).update(payload).digest("base64url");
+}
+
+/** Issues `<payload>.<signature>` where the payload is base64url JSON claims. */
+export function issueUnlockToken(lockerId: string, userId: string): UnlockToken {
+  const claims: UnlockClaims = { lockerId, userId, exp: Date.now() + UNLOCK_TOKEN_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(claims.exp).toISOString() };
+}
+
+export type UnlockTokenFailure = "malformed" | "invalid_signature" | "expired" | "wrong_locker";
+
+/** Returns the claims of a valid token for `lockerId`, or the reason it was refused. */
+export function verifyUnlockToken(
+  token: string,
+  lockerId: string
+): { valid: true; claims: UnlockClaims } | { valid: false; reason: UnlockTokenFailure } {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  let claims: UnlockClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as UnlockClaims;
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  if (typeof claims.exp !== "number" || claims.exp <= Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+  if (claims.lockerId !== lockerId) {
+    return { valid: false, reason: "wrong_locker" };
+  }
+  return { valid: true, claims };
+}
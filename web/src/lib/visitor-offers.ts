@@ -0,0 +1,45 @@
+import type { Offer } from "@/types/offers";
+import { applyPins, curateOffers, CurationReport, getCurationConfig } from "@/lib/curation";
+import { filterOffers, OfferListParams } from "@/lib/offer-query";
+import { getOfferFeed, OfferFeedResult, OfferQuery } from "@/lib/offers";
+import { rankOffers } from "@/lib/ranking";
+
+export interface OfferLocation {
+  ip: string;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  countryCode: string | null;
+}
+
+export interface VisitorOffers {
+  feed: OfferFeedResult;
+  /** Curated, filtered, ranked and pinned, before pagination. */
+  offers: Offer[];
+  curation: CurationReport[];
+  location: OfferLocation | null;
+}
+
+/** The wall as a visitor sees it; shared by `/api/offers` and the server-rendered page. */
+export async function getVisitorOffers(query: OfferQuery, listParams: OfferListParams): Promise<VisitorOffers> {
+  const feed = await getOfferFeed(query);
+  const curationConfig = await getCurationConfig();
+  const curation = curateOffers(feed.offers, curationConfig, query.country);
+  const offers = applyPins(
+    rankOffers(filterOffers(curation.offers, listParams), listParams.sort, listParams.weights),
+    curationConfig,
+    query.country,
+    curation.reports
+  );
+  const location = query.geo
+    ? {
+      ip: query.geo.ip,
+      country: query.geo.countryName,
+      countryCode: query.geo.countryCode,
+      region: query.geo.region,
+      city: query.geo.city,
+    }
+    : null;
+
+  return { feed, offers, curation: curation.reports, location };
+}
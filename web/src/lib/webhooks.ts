@@ -0,0 +1,292 @@
+import { createHmac, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { WebhookDelivery, WebhookEvent, WebhookEventDataMap, WebhookEventType } from "@/types/webhooks";
+import { readCollection, updateCollection } from "@/lib/store";
+
+const WEBHOOKS_CONFIG_PATH = process.env.WEBHOOKS_CONFIG_PATH ?? path.join(process.cwd(), "webhooks.json");
+const RELOAD_CHECK_INTERVAL_MS = 2000;
+const DELIVERIES_COLLECTION = "webhook-deliveries";
+
+function readIntegerEnv(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const MAX_ATTEMPTS = readIntegerEnv(process.env.WEBHOOK_MAX_ATTEMPTS, 8);
+const RETRY_BASE_MS = readIntegerEnv(process.env.WEBHOOK_RETRY_BASE_MS, 10 * 1000);
+const RETRY_MAX_MS = readIntegerEnv(process.env.WEBHOOK_RETRY_MAX_MS, 60 * 60 * 1000);
+const DELIVERY_TIMEOUT_MS = readIntegerEnv(process.env.WEBHOOK_TIMEOUT_MS, 10 * 1000);
+const POLL_INTERVAL_MS = readIntegerEnv(process.env.WEBHOOK_POLL_INTERVAL_MS, 5 * 1000);
+const MAX_ERROR_LENGTH = 500;
+
+const EVENT_TYPES: WebhookEventType[] = [
+  "conversion.created",
+  "conversion.reviewed",
+  "conversion.reversed",
+  "offer.alert",
+];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Signs each delivery; shared with the receiver. */
+  secret: string;
+  /** Event types to receive; every type when empty. */
+  events: WebhookEventType[];
+  enabled: boolean;
+}
+
+let loadedSubscriptions: WebhookSubscription[] = [];
+let loadedMtimeMs: number | null = null;
+let lastCheckAt = 0;
+
+function parseSubscriptions(raw: unknown): WebhookSubscription[] {
+  const source = (raw as { subscriptions?: unknown })?.subscriptions;
+  if (!Array.isArray(source)) {
+    throw new Error("webhooks config must be a JSON object with a subscriptions array");
+  }
+
+  return (source as Partial<WebhookSubscription>[]).flatMap((entry, index) => {
+    const url = typeof entry?.url === "string" ? entry.url : "";
+    if (!/^https?:\/\//.test(url) || typeof entry.secret !== "string" || !entry.secret) {
+      console.warn(`Skipping webhook subscription ${index + 1}: url (http/https) and secret are required`);
+      return [];
+    }
+    return [{
+      id: typeof entry.id === "string" && entry.id ? entry.id : `webhook-${index + 1}`,
+      url,
+      secret: entry.secret,
+      events: (Array.isArray(entry.events) ? entry.events : []).filter((type) => EVENT_TYPES.includes(type)),
+      enabled: entry.enabled !== false,
+    }];
+  });
+}
+
+/** Returns the configured subscriptions, re-reading the file when it changes. */
+export async function getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  const now = Date.now();
+  if (now - lastCheckAt < RELOAD_CHECK_INTERVAL_MS) {
+    return loadedSubscriptions;
+  }
+  lastCheckAt = now;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(WEBHOOKS_CONFIG_PATH)).mtimeMs;
+  } catch {
+    loadedSubscriptions = [];
+    loadedMtimeMs = null;
+    return loadedSubscriptions;
+  }
+
+  if (mtimeMs === loadedMtimeMs) {
+    return loadedSubscriptions;
+  }
+
+  try {
+    loadedSubscriptions = parseSubscriptions(JSON.parse(await fs.readFile(WEBHOOKS_CONFIG_PATH, "utf8")));
+    loadedMtimeMs = mtimeMs;
+    console.log(`Loaded ${loadedSubscriptions.length} webhook subscriptions from ${WEBHOOKS_CONFIG_PATH}`);
+  } catch (error) {
+    console.error(`Ignoring invalid webhooks config ${WEBHOOKS_CONFIG_PATH}`, error);
+  }
+  return loadedSubscriptions;
+}
+
+/**
+ * `X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Receivers should recompute it over the raw body and reject stale timestamps.
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function getRetryDelayMs(attempts: number) {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+  // Half fixed, half jitter: retries spread out without arriving early.
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** Records one delivery per matching subscription and starts sending them. */
+export async function publishWebhookEvent<T extends WebhookEventType>(
+  type: T,
+  data: WebhookEventDataMap[T]
+): Promise<void> {
+  const subscriptions = (await getWebhookSubscriptions()).filter(
+    (subscription) => subscription.enabled && (subscription.events.length === 0 || subscription.events.includes(type))
+  );
+  if (subscriptions.length === 0) return;
+
+  const now = new Date().toISOString();
+  const event: WebhookEvent<T> = { id: randomUUID(), type, createdAt: now, data };
+  const deliveries = subscriptions.map((subscription): WebhookDelivery => ({
+    id: randomUUID(),
+    subscriptionId: subscription.id,
+    url: subscription.url,
+    event,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    lastStatusCode: null,
+    lastError: null,
+    deliveredAt: null,
+    createdAt: now,
+  }));
+
+  await updateCollection<WebhookDelivery, void>(DELIVERIES_COLLECTION, (records) => ({
+    records: [...records, ...deliveries],
+    result: undefined,
+  }));
+  void processDueDeliveries();
+}
+
+/** Publishes without letting a webhook failure affect the caller. */
+export function publishWebhookEventSafely<T extends WebhookEventType>(type: T, data: WebhookEventDataMap[T]) {
+  return publishWebhookEvent(type, data).catch((error) => {
+    console.error(`Failed to queue ${type} webhook`, error);
+  });
+}
+
+interface AttemptResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.event);
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ogads-web-webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event.type,
+        "X-Webhook-Signature": signWebhookPayload(body, subscription.secret, Math.floor(Date.now() / 1000)),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      redirect: "manual",
+    });
+    await response.body?.cancel();
+    return response.ok
+      ? { ok: true, statusCode: response.status, error: null }
+      : { ok: false, statusCode: response.status, error: `Receiver answered ${response.status}` };
+  } catch (error) {
+    return { ok: false, statusCode: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function applyAttempt(delivery: WebhookDelivery, result: AttemptResult, giveUp = false): WebhookDelivery {
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  const base = {
+    ...delivery,
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    lastStatusCode: result.statusCode,
+    lastError: result.error?.slice(0, MAX_ERROR_LENGTH) ?? null,
+  };
+
+  if (result.ok) {
+    return { ...base, status: "delivered", nextAttemptAt: null, deliveredAt: now.toISOString() };
+  }
+  if (giveUp || attempts >= MAX_ATTEMPTS) {
+    console.error({
+      type: "webhook_dead_lettered",
+      deliveryId: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      eventType: delivery.event.type,
+      attempts,
+      error: base.lastError,
+      timestamp: now.toISOString(),
+    });
+    return { ...base, status: "dead", nextAttemptAt: null };
+  }
+  return { ...base, nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString() };
+}
+
+// Shared by every copy of this module in the process so deliveries are never
+// sent twice concurrently.
+const worker = globalThis as typeof globalThis & {
+  __webhookWorker?: { running: Promise<void> | null; timer: ReturnType<typeof setInterval> | null };
+};
+const workerState = (worker.__webhookWorker ??= { running: null, timer: null });
+
+async function runDueDeliveries() {
+  const now = Date.now();
+  const dueDeliveries = (await readCollection<WebhookDelivery>(DELIVERIES_COLLECTION)).filter(
+    (delivery) =>
+      delivery.status === "pending" && delivery.nextAttemptAt !== null && Date.parse(delivery.nextAttemptAt) <= now
+  );
+  if (dueDeliveries.length === 0) return;
+
+  const subscriptions = new Map((await getWebhookSubscriptions()).map((subscription) => [subscription.id, subscription]));
+  for (const due of dueDeliveries) {
+    const subscription = subscriptions.get(due.subscriptionId);
+    let updated: WebhookDelivery;
+    if (subscription?.enabled) {
+      // Use the current URL so a corrected subscription applies to retries and replays.
+      const delivery = { ...due, url: subscription.url };
+      updated = applyAttempt(delivery, await attemptDelivery(delivery, subscription));
+    } else {
+      const error = `Subscription ${due.subscriptionId} is not configured or is disabled`;
+      updated = applyAttempt(due, { ok: false, statusCode: null, error }, true);
+    }
+
+    await updateCollection<WebhookDelivery, void>(DELIVERIES_COLLECTION, (records) => ({
+      records: records.map((record) => (record.id === updated.id ? updated : record)),
+      result: undefined,
+    }));
+  }
+}
+
+/** Sends every delivery that is due; concurrent calls share one run. */
+export function processDueDeliveries(): Promise<void> {
+  if (!workerState.running) {
+    workerState.running = runDueDeliveries()
+      .catch((error) => console.error("Webhook delivery run failed", error))
+      .finally(() => {
+        workerState.running = null;
+      });
+  }
+  return workerState.running;
+}
+
+/** Polls for due retries; started once per process from instrumentation. */
+export function startWebhookWorker() {
+  if (workerState.timer) return;
+  workerState.timer = setInterval(() => void processDueDeliveries(), POLL_INTERVAL_MS);
+  workerState.timer.unref?.();
+  void processDueDeliveries();
+}
+
+export async function listWebhookDeliveries(): Promise<WebhookDelivery[]> {
+  return readCollection<WebhookDelivery>(DELIVERIES_COLLECTION);
+}
+
+/** Moves dead deliveries (all, or the given ids) back to pending with a fresh attempt budget. */
+export async function replayDeadDeliveries(ids?: string[]): Promise<WebhookDelivery[]> {
+  const wanted = ids ? new Set(ids) : null;
+  const now = new Date().toISOString();
+
+  const replayed = await updateCollection<WebhookDelivery, WebhookDelivery[]>(DELIVERIES_COLLECTION, (records) => {
+    const reset: WebhookDelivery[] = [];
+    const next = records.map((record) => {
+      if (record.status !== "dead" || (wanted && !wanted.has(record.id))) return record;
+      const pending: WebhookDelivery = { ...record, status: "pending", attempts: 0, nextAttemptAt: now };
+      reset.push(pending);
+      return pending;
+    });
+    return reset.length > 0 ? { records: next, result: reset } : { result: reset };
+  });
+
+  if (replayed.length > 0) {
+    void processDueDeliveries();
+  }
+  return replayed;
+}
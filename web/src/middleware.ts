@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthorized, isAdminConfigured } from "@/lib/admin-auth";
+import { embedFramePolicy, findEmbedSite } from "@/lib/embed-sites";
+
+async function embedMiddleware(request: NextRequest) {
+  const siteKey = request.nextUrl.pathname.split("/")[2];
+  const response = NextResponse.next();
+  response.headers.set("Content-Security-Policy", embedFramePolicy(await findEmbedSite(siteKey)));
+  return response;
+}
+
+export async function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith("/embed/")) {
+    return embedMiddleware(request);
+  }
+
+  if (!isAdminConfigured()) {
+    return new NextResponse("The admin dashboard is disabled because ADMIN_PASSWORD is not configured.", {
+      status: 503,
+    });
+  }
+
+  if (!isAdminAuthorized(request.headers.get("authorization"))) {
+    return new NextResponse("Authentication required", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Basic realm="OGAds admin", charset="UTF-8"' },
+    });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // The embed sites config is read from disk.
+  runtime: "nodejs",
+  matcher: ["/embed/:siteKey", "/admin", "/admin/:path*", "/api/reports", "/api/offers/history", "/api/admin/:path*"],
+};
@@ -0,0 +1,6 @@
+import { mkdtempSync } from "fs";
+import os from "os";
+import path from "path";
+
+// Every test file gets its own empty store; modules read DATA_DIR on import.
+process.env.DATA_DIR = mkdtempSync(path.join(os.tmpdir(), "ogads-web-test-"));
@@ -0,0 +1,68 @@
+import type { RankingStrategy, RankingWeights } from "@/lib/ranking";
+
+/** Which sanitized copy an offer card shows. */
+export type OfferCopy = "description" | "creativeText";
+
+export type OfferLayout = "grid" | "list";
+
+export interface OfferDisplay {
+  copy: OfferCopy;
+  layout: OfferLayout;
+}
+
+export interface ExperimentVariant {
+  id: string;
+  /** Relative share of visitors; variants are weighted against each other. */
+  weight: number;
+  /** Ranking used when the request does not pass `sort`/`weights` itself. */
+  sort: RankingStrategy | null;
+  weights: RankingWeights | null;
+  copy: OfferCopy | null;
+  layout: OfferLayout | null;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** The first variant is the control that results compare against. */
+  variants: ExperimentVariant[];
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+}
+
+export interface MetricInterval {
+  value: number | null;
+  /** 95% confidence bounds; null when there is not enough data. */
+  low: number | null;
+  high: number | null;
+}
+
+export interface VariantResult {
+  variantId: string;
+  clicks: number;
+  /** Approved conversions from these clicks. */
+  conversions: number;
+  /** Clicks whose conversion is held for fraud review; not counted as earnings until approved. */
+  held: number;
+  /** Clicks whose held conversion was rejected. */
+  rejected: number;
+  payoutUsd: number;
+  /** Conversions per click as a percentage. */
+  cvr: MetricInterval;
+  epc: MetricInterval;
+  /** Relative EPC change against the control, as a percentage. */
+  epcLift: number | null;
+}
+
+export interface ExperimentResults {
+  experimentId: string;
+  name: string;
+  enabled: boolean;
+  from: string | null;
+  to: string | null;
+  variants: VariantResult[];
+}
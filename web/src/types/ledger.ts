@@ -0,0 +1,13 @@
+export type LedgerEntryKind = "credit" | "debit" | "reversal";
+
+export interface LedgerEntry {
+  id: string;
+  userId: string;
+  kind: LedgerEntryKind;
+  /** Signed change to the balance: positive for credits, negative otherwise. */
+  points: number;
+  description: string;
+  conversionId: string | null;
+  reversesEntryId: string | null;
+  createdAt: string;
+}
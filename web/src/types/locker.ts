@@ -0,0 +1,28 @@
+export type LockedResourceKind = "url" | "file" | "text";
+
+export interface LockedResource {
+  id: string;
+  title: string;
+  description: string;
+  kind: LockedResourceKind;
+  /** The URL, the file name inside LOCKER_FILES_DIR, or the text snippet. */
+  content: string;
+  /** Approved conversions needed to unlock. */
+  requiredCompletions: number;
+  /** Points those conversions must add up to. */
+  requiredPoints: number;
+  createdAt: string;
+}
+
+/** What visitors may see before the resource is unlocked. */
+export type PublicLockedResource = Omit<LockedResource, "content">;
+
+export interface LockerProgress {
+  lockerId: string;
+  userId: string;
+  completions: number;
+  points: number;
+  /** Clicks made from this locker that have not converted yet. */
+  pendingClicks: number;
+  unlocked: boolean;
+}
@@ -0,0 +1,65 @@
+import type { FormFactor, OperatingSystem } from "@/lib/device";
+import type { Offer } from "@/types/offers";
+
+/** The network and country/network/device feed a snapshot was taken for. */
+export interface OfferProfile {
+  network: string;
+  country: string | null;
+  /** Visitor ASN; feeds are cached per ASN, so snapshots are too. Null when unknown. */
+  asn: number | null;
+  formFactor: FormFactor;
+  os: OperatingSystem;
+}
+
+export type SnapshotOffer = Pick<
+  Offer,
+  "id" | "network" | "name" | "type" | "payout" | "epc" | "cvr" | "devices" | "countryCodes" | "boosted"
+>;
+
+export interface OfferSnapshot {
+  id: string;
+  profile: OfferProfile;
+  takenAt: string;
+  offers: SnapshotOffer[];
+}
+
+export type OfferChangeField = "payout" | "epc" | "devices" | "countryCodes";
+
+export interface OfferFieldChange {
+  field: OfferChangeField;
+  from: number | string[] | null;
+  to: number | string[] | null;
+  /** Relative change for numeric fields; null when the old value was 0 or missing. */
+  percentChange: number | null;
+}
+
+export interface OfferChange {
+  offerId: number;
+  network: string;
+  name: string;
+  changes: OfferFieldChange[];
+}
+
+export interface OfferSnapshotDiff {
+  fromSnapshotId: string;
+  toSnapshotId: string;
+  from: string;
+  to: string;
+  added: SnapshotOffer[];
+  removed: SnapshotOffer[];
+  changed: OfferChange[];
+}
+
+export interface OfferAlert {
+  id: string;
+  profile: OfferProfile;
+  offerId: number;
+  offerName: string;
+  field: "payout" | "epc";
+  from: number | null;
+  to: number | null;
+  percentChange: number;
+  thresholdPercent: number;
+  snapshotId: string;
+  detectedAt: string;
+}
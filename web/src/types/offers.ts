@@ -0,0 +1,22 @@
+/** An offer normalized by its provider, independent of the network's feed format. */
+export interface Offer {
+  id: number;
+  /** Provider network the offer came from, e.g. "ogads". */
+  network: string;
+  name: string;
+  shortName: string;
+  description: string;
+  creativeText: string;
+  imageUrl: string;
+  payout: number;
+  countryCodes: string[];
+  devices: string[];
+  trackingUrl: string;
+  epc: number | null;
+  /** Conversion rate as reported by the network (percentage). */
+  cvr: number | null;
+  boosted: boolean;
+  type: string | null;
+  /** Display text replacing the formatted payout, set by curation overrides. */
+  payoutLabel: string | null;
+}
@@ -20,18 +20,3 @@ export interface OgadsOffersResponse {
   error: string | null;
   offers: RawOgadsOffer[];
 }
-
-export interface OgadsOffer {
-  id: number;
-  name: string;
-  shortName: string;
-  description: string;
-  creativeText: string;
-  imageUrl: string;
-  payout: number;
-  countryCodes: string[];
-  devices: string[];
-  trackingUrl: string;
-  epc: number | null;
-  type: string | null;
-}
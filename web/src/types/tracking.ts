@@ -0,0 +1,71 @@
+import type { FormFactor, OperatingSystem } from "@/lib/device";
+import type { ExperimentAssignment } from "@/types/experiments";
+
+export type FraudRule =
+  | "datacenter_ip"
+  | "ip_velocity"
+  | "user_velocity"
+  | "fast_conversion"
+  | "ip_mismatch"
+  | "country_mismatch";
+
+export interface FraudSignal {
+  rule: FraudRule;
+  score: number;
+  detail: string;
+}
+
+export interface FraudAssessment {
+  /** Sum of the signal scores. */
+  score: number;
+  signals: FraudSignal[];
+}
+
+export interface ClickRecord {
+  id: string;
+  userId: string | null;
+  /** Provider network of the offer; `offerId` is only unique within it. */
+  network: string;
+  offerId: number;
+  /** Offer name and network-reported EPC when the click happened, for reporting. */
+  offerName: string | null;
+  reportedEpc: number | null;
+  /** Traffic source label passed to the wall as `?subid=`. */
+  subid: string | null;
+  /** Locked resource the click was made from, if any. */
+  lockerId: string | null;
+  /** Experiment variants the visitor was assigned when they clicked. */
+  experiments: ExperimentAssignment[];
+  ip: string | null;
+  country: string | null;
+  formFactor: FormFactor | null;
+  os: OperatingSystem | null;
+  userAgent: string | null;
+  /** Null for orphaned clicks, which never went through screening. */
+  fraud: FraudAssessment | null;
+  orphaned: boolean;
+  createdAt: string;
+}
+
+/** `held` conversions failed fraud screening and wait for a review before crediting. */
+export type ConversionStatus = "approved" | "held" | "rejected" | "reversed";
+
+export interface ConversionRecord {
+  /** Unique conversion key: `<offerId>-<clickId>`. */
+  id: string;
+  clickId: string;
+  userId: string | null;
+  network: string;
+  offerId: number;
+  payoutUsd: number;
+  points: number;
+  status: ConversionStatus;
+  /** Copied from the click so downstream consumers see the variant. */
+  experiments: ExperimentAssignment[];
+  ip: string | null;
+  fraud: FraudAssessment;
+  convertedAt: string;
+  reversedAt: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
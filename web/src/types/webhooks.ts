@@ -0,0 +1,36 @@
+import type { OfferAlert } from "@/types/offer-history";
+import type { ConversionRecord } from "@/types/tracking";
+
+export interface WebhookEventDataMap {
+  "conversion.created": { conversion: ConversionRecord };
+  "conversion.reviewed": { conversion: ConversionRecord };
+  "conversion.reversed": { conversion: ConversionRecord };
+  "offer.alert": { alert: OfferAlert };
+}
+
+export type WebhookEventType = keyof WebhookEventDataMap;
+
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  createdAt: string;
+  data: WebhookEventDataMap[T];
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next attempt is due; null once delivered or dead. */
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}